@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "unitCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "unitIndex" INTEGER NOT NULL DEFAULT 0;
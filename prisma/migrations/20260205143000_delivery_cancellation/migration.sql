@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "cancellationRef" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "EsimDelivery_orderId_idx" ON "EsimDelivery"("orderId");
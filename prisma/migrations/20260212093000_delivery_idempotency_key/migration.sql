@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- Backfill existing rows
+UPDATE "EsimDelivery"
+SET "idempotencyKey" = "orderId" || '::' || "lineItemId" || '::' || "unitIndex";
+
+-- Concurrent webhook retries may already have created duplicates: keep the oldest row
+-- on the canonical key and give the others a distinct key so they stay inspectable
+UPDATE "EsimDelivery" d
+SET "idempotencyKey" = d."idempotencyKey" || '::duplicate::' || d."id"
+WHERE EXISTS (
+    SELECT 1 FROM "EsimDelivery" o
+    WHERE o."idempotencyKey" = d."idempotencyKey"
+      AND (o."createdAt" < d."createdAt" OR (o."createdAt" = d."createdAt" AND o."id" < d."id"))
+);
+
+ALTER TABLE "EsimDelivery" ALTER COLUMN "idempotencyKey" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EsimDelivery_idempotencyKey_key" ON "EsimDelivery"("idempotencyKey");
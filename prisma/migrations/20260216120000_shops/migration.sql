@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Shop" (
+    "id" TEXT NOT NULL,
+    "domain" TEXT NOT NULL,
+    "accessTokenEncrypted" TEXT,
+    "webhookSecretEncrypted" TEXT,
+    "scopes" TEXT,
+    "brandName" TEXT,
+    "emailFrom" TEXT,
+    "supportEmail" TEXT,
+    "storefrontUrl" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "installedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uninstalledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shop_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shop_domain_key" ON "Shop"("domain");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "sku" TEXT;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "redactedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "WebhookEvent" ADD COLUMN     "redactedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ComplianceRequest" (
+    "id" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "shopifyRequestId" TEXT,
+    "customerId" TEXT,
+    "orderIds" TEXT[],
+    "deliveryCount" INTEGER NOT NULL DEFAULT 0,
+    "exportEncrypted" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ComplianceRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ComplianceRequest_shop_idx" ON "ComplianceRequest"("shop");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "accessExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "accessTokenHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EsimDelivery_accessTokenHash_key" ON "EsimDelivery"("accessTokenHash");
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "iccidHash" TEXT,
+ADD COLUMN     "vendorOrderHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EsimDelivery_iccidHash_idx" ON "EsimDelivery"("iccidHash");
+
+-- CreateIndex
+CREATE INDEX "EsimDelivery_vendorOrderHash_idx" ON "EsimDelivery"("vendorOrderHash");
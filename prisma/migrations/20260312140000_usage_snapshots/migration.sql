@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "UsageSnapshot" (
+    "id" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "usedMb" DOUBLE PRECISION NOT NULL,
+    "totalMb" DOUBLE PRECISION NOT NULL,
+    "status" TEXT,
+    "beginDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "capturedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageSnapshot_deliveryId_capturedAt_idx" ON "UsageSnapshot"("deliveryId", "capturedAt");
+
+-- AddForeignKey
+ALTER TABLE "UsageSnapshot" ADD CONSTRAINT "UsageSnapshot_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "EsimDelivery"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
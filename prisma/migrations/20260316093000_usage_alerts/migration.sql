@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "UsageAlert" (
+    "id" TEXT NOT NULL,
+    "deliveryId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "messageId" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CustomerPreference" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "usageAlertsOptOutAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomerPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UsageAlert_deliveryId_kind_key" ON "UsageAlert"("deliveryId", "kind");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerPreference_shop_email_key" ON "CustomerPreference"("shop", "email");
+
+-- AddForeignKey
+ALTER TABLE "UsageAlert" ADD CONSTRAINT "UsageAlert_deliveryId_fkey" FOREIGN KEY ("deliveryId") REFERENCES "EsimDelivery"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
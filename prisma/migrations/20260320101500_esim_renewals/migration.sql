@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "renewalOf" TEXT;
+
+-- CreateIndex
+CREATE INDEX "EsimDelivery_renewalOf_idx" ON "EsimDelivery"("renewalOf");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "locale" TEXT;
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "locale" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "emailStatus" TEXT,
+ADD COLUMN     "fulfillmentStatus" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "customerId" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "orderEmail" TEXT,
+ADD COLUMN     "orderUpdatedAt" TIMESTAMP(3);
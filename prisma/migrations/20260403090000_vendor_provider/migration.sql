@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "provider" TEXT;
+
+-- AlterTable
+ALTER TABLE "EsimOrder" ADD COLUMN     "provider" TEXT;
+
+-- Every order so far was placed with FiRoam
+UPDATE "EsimDelivery" SET "provider" = 'firoam' WHERE "vendorReferenceId" IS NOT NULL;
+UPDATE "EsimOrder" SET "provider" = 'firoam';
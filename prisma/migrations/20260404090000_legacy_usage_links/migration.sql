@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "EsimDelivery" ADD COLUMN     "legacyLinkUntil" TIMESTAMP(3);
+
+-- Emails sent so far link to the usage page by bare ICCID; those links keep working for six weeks
+UPDATE "EsimDelivery" SET "legacyLinkUntil" = CURRENT_TIMESTAMP + INTERVAL '6 weeks' WHERE "status" = 'delivered';
@@ -0,0 +1,119 @@
+#!/usr/bin/env ts-node
+/**
+ * Manage admin API keys
+ *
+ * Usage:
+ *   npm run admin:keys -- create <name> <scope,scope,...> [--expires-days 90]
+ *   npm run admin:keys -- list
+ *   npm run admin:keys -- revoke <prefix>
+ */
+
+import 'dotenv/config';
+import prisma from '../src/db/prisma';
+import {
+  ADMIN_SCOPES,
+  isAdminScope,
+  createAdminApiKey,
+  revokeAdminApiKey,
+} from '../src/services/adminKeys';
+import { recordAudit } from '../src/services/audit';
+
+function usage(): never {
+  console.error('Usage: npm run admin:keys -- create <name> <scopes> [--expires-days N]');
+  console.error('       npm run admin:keys -- list');
+  console.error('       npm run admin:keys -- revoke <prefix>');
+  console.error(`Scopes: ${ADMIN_SCOPES.join(', ')}`);
+  process.exit(1);
+}
+
+async function createKey(args: string[]) {
+  const [name, scopeList] = args;
+  if (!name || !scopeList) usage();
+
+  const scopes = scopeList.split(',').map((s) => s.trim());
+  const invalid = scopes.filter((scope) => !isAdminScope(scope));
+  if (invalid.length > 0) {
+    console.error(`❌ Unknown scope(s): ${invalid.join(', ')}`);
+    usage();
+  }
+
+  const expiresIndex = args.indexOf('--expires-days');
+  let expiresAt: Date | undefined;
+  if (expiresIndex >= 0) {
+    const value = args[expiresIndex + 1] ?? '';
+    if (!/^\d+$/.test(value) || Number(value) < 1) {
+      console.error(`❌ --expires-days must be a positive whole number of days, got "${value}"`);
+      usage();
+    }
+    expiresAt = new Date(Date.now() + Number(value) * 24 * 60 * 60 * 1000);
+  }
+
+  const { key, apiKey } = await createAdminApiKey(name, scopes.filter(isAdminScope), expiresAt);
+  await recordAudit({
+    actor: 'cli',
+    action: 'admin_key.create',
+    targetId: apiKey.id,
+    metadata: { name, prefix: apiKey.prefix, scopes },
+  });
+
+  console.log(`✅ Created key ${apiKey.prefix} for ${name}`);
+  console.log(`   Scopes: ${apiKey.scopes.join(', ')}`);
+  if (expiresAt) console.log(`   Expires: ${expiresAt.toISOString()}`);
+  console.log(`\n   ${key}\n`);
+  console.log('⚠️  This is the only time the key is shown. Store it securely.');
+}
+
+async function listKeys() {
+  const keys = await prisma.adminApiKey.findMany({ orderBy: { createdAt: 'asc' } });
+  if (keys.length === 0) {
+    console.log('No admin API keys.');
+    return;
+  }
+
+  for (const key of keys) {
+    const state = key.revokedAt
+      ? 'revoked'
+      : key.expiresAt && key.expiresAt < new Date()
+        ? 'expired'
+        : 'active';
+    console.log(
+      `${key.prefix}  ${state.padEnd(7)}  ${key.name}  [${key.scopes.join(', ')}]  last used: ${key.lastUsedAt?.toISOString() || 'never'}`,
+    );
+  }
+}
+
+async function revokeKey(args: string[]) {
+  const [prefix] = args;
+  if (!prefix) usage();
+
+  if (!(await revokeAdminApiKey(prefix))) {
+    console.error(`❌ No active key with prefix ${prefix}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await recordAudit({ actor: 'cli', action: 'admin_key.revoke', metadata: { prefix } });
+  console.log(`✅ Revoked key ${prefix}`);
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create':
+      return createKey(args);
+    case 'list':
+      return listKeys();
+    case 'revoke':
+      return revokeKey(args);
+    default:
+      usage();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
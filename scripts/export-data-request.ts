@@ -0,0 +1,50 @@
+#!/usr/bin/env ts-node
+/**
+ * Print the decrypted JSON export of a GDPR customers/data_request
+ *
+ * Usage:
+ *   npm run compliance:export                # list recent data requests
+ *   npm run compliance:export <request-id>   # print the export
+ */
+
+import 'dotenv/config';
+import prisma from '../src/db/prisma';
+import { decrypt } from '../src/utils/crypto';
+
+async function exportDataRequest(requestId?: string) {
+  if (!requestId) {
+    const requests = await prisma.complianceRequest.findMany({
+      where: { topic: 'customers/data_request' },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+
+    if (requests.length === 0) {
+      console.log('No data requests found.');
+      return;
+    }
+
+    for (const request of requests) {
+      console.log(
+        `${request.id}  ${request.shop}  customer ${request.customerId}  ${request.deliveryCount} delivery(ies)  ${request.createdAt.toISOString()}`,
+      );
+    }
+    return;
+  }
+
+  const request = await prisma.complianceRequest.findUnique({ where: { id: requestId } });
+  if (!request || !request.exportEncrypted) {
+    console.error(`❌ No data request export found for ${requestId}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(JSON.stringify(JSON.parse(decrypt(request.exportEncrypted)), null, 2));
+}
+
+exportDataRequest(process.argv[2])
+  .catch((error) => {
+    console.error('❌ Export failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
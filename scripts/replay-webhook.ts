@@ -0,0 +1,71 @@
+#!/usr/bin/env ts-node
+/**
+ * Replay stored Shopify webhook events
+ *
+ * Usage:
+ *   npm run webhook:replay <event-id> [<event-id> ...]
+ *   npm run webhook:replay -- --failed
+ */
+
+import 'dotenv/config';
+import prisma from '../src/db/prisma';
+import { initializeJobQueue, stopJobQueue } from '../src/queue/jobQueue';
+import { enqueueWebhookEvent } from '../src/services/shopifyWebhooks';
+
+async function replayWebhooks(args: string[]) {
+  const replayFailed = args.includes('--failed');
+  const eventIds = args.filter((arg) => !arg.startsWith('--'));
+
+  const events = await prisma.webhookEvent.findMany({
+    // Redacted events no longer hold their original payload
+    where: replayFailed
+      ? { status: 'failed', redactedAt: null }
+      : { id: { in: eventIds }, redactedAt: null },
+    select: { id: true, topic: true, shop: true, status: true, lastError: true },
+    orderBy: { receivedAt: 'asc' },
+  });
+
+  if (events.length === 0) {
+    console.log('No matching webhook events found.');
+    return;
+  }
+
+  const missing = eventIds.filter((id) => !events.some((event) => event.id === id));
+  if (missing.length > 0) {
+    console.warn(`⚠️  Events not found: ${missing.join(', ')}`);
+  }
+
+  await initializeJobQueue();
+
+  console.log(`🔁 Replaying ${events.length} webhook event(s)...\n`);
+
+  for (const event of events) {
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: 'received', processedAt: null },
+    });
+    await enqueueWebhookEvent(event.id);
+
+    console.log(`✅ ${event.id} (${event.topic} from ${event.shop}) - was ${event.status}`);
+    if (event.lastError) {
+      console.log(`   Last error: ${event.lastError}`);
+    }
+  }
+}
+
+const args = process.argv.slice(2);
+if (args.length === 0) {
+  console.error('Usage: npm run webhook:replay <event-id> [<event-id> ...]');
+  console.error('       npm run webhook:replay -- --failed');
+  process.exit(1);
+}
+
+replayWebhooks(args)
+  .catch((error) => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await stopJobQueue();
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,43 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { authenticateAdminApiKey, type AdminScope } from '../../services/adminKeys';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    adminActor?: string;
+    adminScopes?: string[];
+  }
+}
+
+/**
+ * onRequest hook: resolve the bearer API key to an actor and its scopes
+ */
+export async function authenticateAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const header = request.headers.authorization;
+  const apiKey = header?.startsWith('Bearer ')
+    ? await authenticateAdminApiKey(header.slice('Bearer '.length).trim())
+    : null;
+
+  if (!apiKey) {
+    request.log.warn(`[Admin] Unauthorized ${request.method} ${request.url}`);
+    return reply.code(401).send({ error: 'Unauthorized' });
+  }
+
+  request.adminActor = `key:${apiKey.prefix}`;
+  request.adminScopes = apiKey.scopes;
+}
+
+export function hasScope(request: FastifyRequest, scope: AdminScope): boolean {
+  return !!request.adminScopes?.includes(scope);
+}
+
+/**
+ * preHandler that rejects keys lacking the given scope
+ */
+export function requireScope(scope: AdminScope) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!hasScope(request, scope)) {
+      request.log.warn(`[Admin] ${request.adminActor} lacks scope ${scope} for ${request.url}`);
+      return reply.code(403).send({ error: 'Forbidden', message: `Requires scope ${scope}` });
+    }
+  };
+}
@@ -0,0 +1,293 @@
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { decrypt } from '../../utils/crypto';
+import { recordAudit } from '../../services/audit';
+import { hasScope, requireScope } from './auth';
+import { resendDeliveryEmail, retryFailedDelivery } from '../../services/delivery';
+import { hashIccid, hashVendorOrder } from '../../services/esimLookup';
+
+const listQuerySchema = z.object({
+  status: z.string().optional(), // Comma-separated, e.g. 'failed,pending'
+  shop: z.string().optional(),
+  orderName: z.string().optional(),
+  email: z.string().optional(),
+  sku: z.string().optional(),
+  iccid: z.string().optional(),
+  vendorOrder: z.string().optional(), // FiRoam order number
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+const detailQuerySchema = z.object({
+  reveal: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((value) => value === 'true'),
+});
+
+const bulkRetryBodySchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(100),
+});
+
+const resendBodySchema = z.object({
+  to: z.email().optional(), // Override recipient, e.g. a corrected address
+});
+
+// Everything except the encrypted payload
+const deliverySummarySelect = {
+  id: true,
+  shop: true,
+  orderId: true,
+  orderName: true,
+  lineItemId: true,
+  unitIndex: true,
+  unitCount: true,
+  variantId: true,
+  sku: true,
+  customerEmail: true,
+  status: true,
+  emailStatus: true,
+  fulfillmentStatus: true,
+  vendorReferenceId: true,
+  lastError: true,
+  cancellationRef: true,
+  cancelledAt: true,
+  redactedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.EsimDeliverySelect;
+
+/**
+ * Admin delivery routes
+ * GET /admin/deliveries - List deliveries (cursor paginated, filterable)
+ * GET /admin/deliveries/:id - Delivery detail; ?reveal=true (payload:reveal) adds the eSIM payload
+ * POST /admin/deliveries/:id/retry - Re-enqueue provisioning for a failed delivery
+ * POST /admin/deliveries/retry - Bulk retry ({ ids: [...] })
+ * POST /admin/deliveries/:id/resend - Resend the delivery email ({ to?: override })
+ */
+export default function deliveryAdminRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  /**
+   * GET /admin/deliveries
+   * Newest first; pass nextCursor back as ?cursor= for the next page
+   */
+  app.get(
+    '/',
+    { preHandler: requireScope('deliveries:read') },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parsed = listQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid query', details: parsed.error.issues });
+      }
+      const query = parsed.data;
+
+      const where: Prisma.EsimDeliveryWhereInput = {};
+      if (query.status) where.status = { in: query.status.split(',').map((s) => s.trim()) };
+      if (query.shop) where.shop = query.shop;
+      if (query.orderName) where.orderName = { contains: query.orderName, mode: 'insensitive' };
+      if (query.email) where.customerEmail = { equals: query.email, mode: 'insensitive' };
+      if (query.sku) where.sku = query.sku;
+      if (query.iccid) where.iccidHash = hashIccid(query.iccid);
+      if (query.vendorOrder) where.vendorOrderHash = hashVendorOrder(query.vendorOrder);
+      if (query.from || query.to) where.createdAt = { gte: query.from, lte: query.to };
+
+      const deliveries = await prisma.esimDelivery.findMany({
+        where,
+        select: deliverySummarySelect,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: query.limit + 1,
+        ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+      });
+
+      const hasMore = deliveries.length > query.limit;
+      const items = hasMore ? deliveries.slice(0, query.limit) : deliveries;
+
+      return reply.send({
+        items,
+        nextCursor: hasMore ? items[items.length - 1].id : null,
+      });
+    },
+  );
+
+  /**
+   * GET /admin/deliveries/:id
+   * Includes attempts, vendor orders and lastError. Revealing the payload is audited.
+   */
+  app.get<{ Params: { id: string } }>(
+    '/:id',
+    { preHandler: requireScope('deliveries:read') },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const parsed = detailQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid query', details: parsed.error.issues });
+      }
+      const { reveal } = parsed.data;
+
+      if (reveal && !hasScope(request, 'payload:reveal')) {
+        return reply
+          .code(403)
+          .send({ error: 'Forbidden', message: 'Requires scope payload:reveal' });
+      }
+
+      const delivery = await prisma.esimDelivery.findUnique({
+        where: { id: request.params.id },
+        select: {
+          ...deliverySummarySelect,
+          payloadEncrypted: true,
+          attempts: { orderBy: { createdAt: 'asc' } },
+          esimOrders: {
+            select: {
+              id: true,
+              vendorReferenceId: true,
+              status: true,
+              lastError: true,
+              createdAt: true,
+              updatedAt: true,
+            },
+          },
+        },
+      });
+
+      if (!delivery) {
+        return reply.code(404).send({ error: 'Delivery not found' });
+      }
+
+      const { payloadEncrypted, ...details } = delivery;
+
+      let payload: unknown = undefined;
+      if (reveal && payloadEncrypted) {
+        payload = JSON.parse(decrypt(payloadEncrypted));
+
+        await recordAudit({
+          actor: request.adminActor || 'unknown',
+          action: 'delivery.payload.reveal',
+          targetId: delivery.id,
+        });
+        app.log.info(`[Admin] ${request.adminActor} revealed payload of delivery ${delivery.id}`);
+      }
+
+      return reply.send({ ...details, hasPayload: !!payloadEncrypted, payload });
+    },
+  );
+
+  /**
+   * POST /admin/deliveries/retry
+   * Bulk retry; each delivery is guarded individually and reported in results
+   */
+  app.post(
+    '/retry',
+    { preHandler: requireScope('deliveries:write') },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parsed = bulkRetryBodySchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid body', details: parsed.error.issues });
+      }
+
+      const results = [];
+      for (const id of new Set(parsed.data.ids)) {
+        const result = await retryFailedDelivery(id);
+        if (result.retried) {
+          await recordAudit({
+            actor: request.adminActor || 'unknown',
+            action: 'delivery.retry',
+            targetId: id,
+          });
+        }
+        results.push(result);
+      }
+
+      return reply.send({
+        retried: results.filter((r) => r.retried).length,
+        results,
+      });
+    },
+  );
+
+  /**
+   * POST /admin/deliveries/:id/retry
+   * 409 when the delivery is not failed or already has a vendor order
+   */
+  app.post<{ Params: { id: string } }>(
+    '/:id/retry',
+    { preHandler: requireScope('deliveries:write') },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const result = await retryFailedDelivery(request.params.id);
+
+      if (!result.retried) {
+        const code = result.reason === 'not found' ? 404 : 409;
+        return reply.code(code).send({ error: 'Retry refused', message: result.reason });
+      }
+
+      await recordAudit({
+        actor: request.adminActor || 'unknown',
+        action: 'delivery.retry',
+        targetId: result.deliveryId,
+      });
+      app.log.info(`[Admin] ${request.adminActor} retried delivery ${result.deliveryId}`);
+
+      return reply.send(result);
+    },
+  );
+
+  /**
+   * POST /admin/deliveries/:id/resend
+   * Rebuilds the email and PDF from the encrypted payload
+   */
+  app.post<{ Params: { id: string } }>(
+    '/:id/resend',
+    { preHandler: requireScope('deliveries:write') },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const parsed = resendBodySchema.safeParse(request.body ?? {});
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid body', details: parsed.error.issues });
+      }
+      const { to } = parsed.data;
+      const deliveryId = request.params.id;
+
+      const delivery = await prisma.esimDelivery.findUnique({
+        where: { id: deliveryId },
+        select: { id: true, status: true, payloadEncrypted: true },
+      });
+      if (!delivery) {
+        return reply.code(404).send({ error: 'Delivery not found' });
+      }
+      if (delivery.status !== 'delivered' || !delivery.payloadEncrypted) {
+        return reply
+          .code(409)
+          .send({ error: 'Resend refused', message: `Delivery is ${delivery.status}` });
+      }
+
+      // Admin resends are audited instead of rate limited
+      const result = await resendDeliveryEmail(deliveryId, { to, enforceRateLimit: false });
+
+      // Nothing was sent, so there is nothing to audit
+      if (result.reason === 'not_found' || result.reason === 'refused') {
+        const code = result.reason === 'not_found' ? 404 : 409;
+        return reply.code(code).send({ error: 'Resend refused', message: result.error });
+      }
+
+      await recordAudit({
+        actor: request.adminActor || 'unknown',
+        action: 'delivery.resend',
+        targetId: deliveryId,
+        metadata: { overrideTo: to ?? null, success: result.success },
+      });
+
+      if (!result.success) {
+        return reply.code(502).send({ error: 'Resend failed', message: result.error });
+      }
+
+      app.log.info(`[Admin] ${request.adminActor} resent delivery ${deliveryId}`);
+      return reply.send({ success: true, messageId: result.messageId });
+    },
+  );
+
+  done();
+}
@@ -0,0 +1,22 @@
+import { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { authenticateAdmin } from './auth';
+import deliveryAdminRoutes from './deliveries';
+import mappingAdminRoutes from './mappings';
+
+/**
+ * Admin API routes (all require a scoped API key, see scripts/admin-keys.ts)
+ * /admin/deliveries - Inspect, retry and resend deliveries
+ * /admin/mappings - Manage SKU mappings
+ */
+export default function adminRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  app.addHook('onRequest', authenticateAdmin);
+
+  app.register(deliveryAdminRoutes, { prefix: '/deliveries' });
+  app.register(mappingAdminRoutes, { prefix: '/mappings' });
+
+  done();
+}
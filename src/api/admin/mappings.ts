@@ -0,0 +1,313 @@
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { recordAudit } from '../../services/audit';
+import { requireScope } from './auth';
+import { parseCsvRecords } from '../../utils/csv';
+import {
+  MAPPING_FIELDS,
+  mappingInputSchema,
+  validateMappingRows,
+  diffMappingImport,
+  applyMappingImport,
+  exportMappings,
+} from '../../services/skuMappings';
+
+const IMPORT_BODY_LIMIT = 20 * 1048576; // 20MB - a full catalogue export is several MB
+
+const searchQuerySchema = z.object({
+  q: z.string().optional(), // Matches shopifySku or name
+  provider: z.string().optional(),
+  region: z.string().optional(),
+  packageType: z.enum(['fixed', 'daypass', 'renewal']).optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const importQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+});
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+  provider: z.string().optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+});
+
+// Fields a PATCH may change; shopifySku is the identity and stays fixed
+const mappingPatchSchema = z
+  .object(Object.fromEntries(MAPPING_FIELDS.map((field) => [field, z.unknown()])))
+  .partial()
+  .omit({ shopifySku: true })
+  .strict();
+
+/**
+ * Admin SKU mapping routes (reads need any valid key, writes need mappings:write)
+ * GET /admin/mappings - Search mappings
+ * GET /admin/mappings/export - Export in the import format (?format=csv|json)
+ * POST /admin/mappings/import - Bulk import from CSV or JSON (?dryRun=false to apply)
+ * GET /admin/mappings/:id - Mapping detail
+ * POST /admin/mappings - Create a mapping
+ * PATCH /admin/mappings/:id - Update a mapping
+ * POST /admin/mappings/:id/deactivate - Stop provisioning a SKU
+ */
+export default function mappingAdminRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  // CSV imports arrive as text/csv
+  app.addContentTypeParser('text/csv', { parseAs: 'string' }, (_req, body, parserDone) => {
+    parserDone(null, body);
+  });
+
+  /**
+   * GET /admin/mappings
+   */
+  app.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = searchQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.issues });
+    }
+    const query = parsed.data;
+
+    const where: Prisma.ProviderSkuMappingWhereInput = {};
+    if (query.q) {
+      where.OR = [
+        { shopifySku: { contains: query.q, mode: 'insensitive' } },
+        { name: { contains: query.q, mode: 'insensitive' } },
+      ];
+    }
+    if (query.provider) where.provider = query.provider;
+    if (query.region) where.region = query.region;
+    if (query.packageType) where.packageType = query.packageType;
+    if (query.isActive) where.isActive = query.isActive === 'true';
+
+    const mappings = await prisma.providerSkuMapping.findMany({
+      where,
+      orderBy: { shopifySku: 'asc' },
+      take: query.limit + 1,
+      ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = mappings.length > query.limit;
+    const items = hasMore ? mappings.slice(0, query.limit) : mappings;
+
+    return reply.send({ items, nextCursor: hasMore ? items[items.length - 1].id : null });
+  });
+
+  /**
+   * GET /admin/mappings/export
+   */
+  app.get('/export', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parsed = exportQuerySchema.safeParse(request.query);
+    if (!parsed.success) {
+      return reply.code(400).send({ error: 'Invalid query', details: parsed.error.issues });
+    }
+    const { format, provider, isActive } = parsed.data;
+
+    const mappings = await prisma.providerSkuMapping.findMany({
+      where: {
+        ...(provider ? { provider } : {}),
+        ...(isActive ? { isActive: isActive === 'true' } : {}),
+      },
+      orderBy: { shopifySku: 'asc' },
+    });
+
+    return reply
+      .header('Content-Type', format === 'csv' ? 'text/csv' : 'application/json')
+      .header('Content-Disposition', `attachment; filename="sku-mappings.${format}"`)
+      .send(exportMappings(mappings, format));
+  });
+
+  /**
+   * POST /admin/mappings/import
+   * Body: text/csv with a header row, or JSON array (or { mappings: [...] }).
+   * Dry run by default: validates and returns the diff without writing.
+   */
+  app.post(
+    '/import',
+    { bodyLimit: IMPORT_BODY_LIMIT, preHandler: requireScope('mappings:write') },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parsedQuery = importQuerySchema.safeParse(request.query);
+      if (!parsedQuery.success) {
+        return reply.code(400).send({ error: 'Invalid query', details: parsedQuery.error.issues });
+      }
+      const { dryRun } = parsedQuery.data;
+
+      let rows: unknown[];
+      if (typeof request.body === 'string') {
+        rows = parseCsvRecords(request.body);
+      } else if (Array.isArray(request.body)) {
+        rows = request.body;
+      } else if (Array.isArray((request.body as { mappings?: unknown })?.mappings)) {
+        rows = (request.body as { mappings: unknown[] }).mappings;
+      } else {
+        return reply
+          .code(400)
+          .send({ error: 'Invalid body', message: 'Expected CSV or a JSON array of mappings' });
+      }
+
+      if (rows.length === 0) {
+        return reply.code(400).send({ error: 'Invalid body', message: 'No mappings to import' });
+      }
+
+      const { mappings, errors } = validateMappingRows(rows);
+      if (errors.length > 0) {
+        return reply.code(400).send({ error: 'Validation failed', rows: rows.length, errors });
+      }
+
+      const diff = await diffMappingImport(mappings);
+      const summary = {
+        rows: rows.length,
+        create: diff.creates.length,
+        update: diff.updates.length,
+        unchanged: diff.unchanged,
+      };
+
+      if (!dryRun) {
+        await applyMappingImport(mappings, diff);
+
+        await recordAudit({
+          actor: request.adminActor || 'unknown',
+          action: 'mapping.import',
+          metadata: summary,
+        });
+        app.log.info(`[Admin] ${request.adminActor} imported mappings: ${JSON.stringify(summary)}`);
+      }
+
+      return reply.send({
+        dryRun,
+        applied: !dryRun,
+        summary,
+        creates: diff.creates.map((m) => m.shopifySku),
+        updates: diff.updates,
+      });
+    },
+  );
+
+  /**
+   * GET /admin/mappings/:id
+   */
+  app.get(
+    '/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const mapping = await prisma.providerSkuMapping.findUnique({
+        where: { id: request.params.id },
+      });
+      if (!mapping) {
+        return reply.code(404).send({ error: 'Mapping not found' });
+      }
+      return reply.send(mapping);
+    },
+  );
+
+  /**
+   * POST /admin/mappings
+   */
+  app.post(
+    '/',
+    { preHandler: requireScope('mappings:write') },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const parsed = mappingInputSchema.safeParse(request.body);
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid mapping', details: parsed.error.issues });
+      }
+
+      try {
+        const mapping = await prisma.providerSkuMapping.create({ data: parsed.data });
+
+        await recordAudit({
+          actor: request.adminActor || 'unknown',
+          action: 'mapping.create',
+          targetId: mapping.id,
+          metadata: { shopifySku: mapping.shopifySku },
+        });
+
+        return reply.code(201).send(mapping);
+      } catch (error) {
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return reply
+            .code(409)
+            .send({ error: 'Mapping already exists', shopifySku: parsed.data.shopifySku });
+        }
+        throw error;
+      }
+    },
+  );
+
+  /**
+   * PATCH /admin/mappings/:id
+   * The merged mapping is re-validated, so e.g. switching to daypass requires daysCount
+   */
+  app.patch<{ Params: { id: string } }>(
+    '/:id',
+    { preHandler: requireScope('mappings:write') },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const patch = mappingPatchSchema.safeParse(request.body);
+      if (!patch.success) {
+        return reply.code(400).send({ error: 'Invalid body', details: patch.error.issues });
+      }
+
+      const existing = await prisma.providerSkuMapping.findUnique({
+        where: { id: request.params.id },
+      });
+      if (!existing) {
+        return reply.code(404).send({ error: 'Mapping not found' });
+      }
+
+      const merged = mappingInputSchema.safeParse({ ...existing, ...patch.data });
+      if (!merged.success) {
+        return reply.code(400).send({ error: 'Invalid mapping', details: merged.error.issues });
+      }
+
+      // shopifySku comes from the existing row - the patch schema rejects it
+      const mapping = await prisma.providerSkuMapping.update({
+        where: { id: existing.id },
+        data: merged.data,
+      });
+
+      await recordAudit({
+        actor: request.adminActor || 'unknown',
+        action: 'mapping.update',
+        targetId: mapping.id,
+        metadata: { shopifySku: mapping.shopifySku, fields: Object.keys(patch.data) },
+      });
+
+      return reply.send(mapping);
+    },
+  );
+
+  /**
+   * POST /admin/mappings/:id/deactivate
+   * Orders for the SKU then fail visibly instead of provisioning
+   */
+  app.post<{ Params: { id: string } }>(
+    '/:id/deactivate',
+    { preHandler: requireScope('mappings:write') },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const { count } = await prisma.providerSkuMapping.updateMany({
+        where: { id: request.params.id },
+        data: { isActive: false },
+      });
+      if (count === 0) {
+        return reply.code(404).send({ error: 'Mapping not found' });
+      }
+
+      await recordAudit({
+        actor: request.adminActor || 'unknown',
+        action: 'mapping.deactivate',
+        targetId: request.params.id,
+      });
+
+      return reply.send({ id: request.params.id, isActive: false });
+    },
+  );
+
+  done();
+}
@@ -0,0 +1,88 @@
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import {
+  getOAuthConfig,
+  isValidShopDomain,
+  createOAuthState,
+  verifyOAuthState,
+  verifyOAuthQuery,
+  buildInstallUrl,
+  exchangeCodeForToken,
+} from '../shopify/oauth';
+import { saveInstalledShop } from '../services/shops';
+
+/**
+ * Shopify OAuth install routes
+ * GET /auth/install?shop=... - Start the install flow
+ * GET /auth/callback - Shopify redirect after the merchant approves
+ */
+export default function authRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  /**
+   * GET /auth/install
+   * Redirect the merchant to Shopify's authorization screen
+   */
+  app.get(
+    '/install',
+    async (request: FastifyRequest<{ Querystring: { shop?: string } }>, reply: FastifyReply) => {
+      const { shop } = request.query;
+
+      if (!isValidShopDomain(shop)) {
+        return reply.code(400).send({ error: 'Invalid shop domain' });
+      }
+
+      const config = getOAuthConfig();
+      const state = createOAuthState(shop, config.clientSecret);
+
+      app.log.info(`[Auth] Starting OAuth install for ${shop}`);
+      return reply.redirect(buildInstallUrl(shop, state, config));
+    },
+  );
+
+  /**
+   * GET /auth/callback
+   * Verify the redirect, exchange the code and store the shop's offline token
+   */
+  app.get(
+    '/callback',
+    async (
+      request: FastifyRequest<{ Querystring: Record<string, string> }>,
+      reply: FastifyReply,
+    ) => {
+      const query = request.query;
+      const { shop, code, state } = query;
+
+      if (!isValidShopDomain(shop) || !code || !state) {
+        return reply.code(400).send({ error: 'Missing or invalid OAuth parameters' });
+      }
+
+      const config = getOAuthConfig();
+
+      if (!verifyOAuthQuery(query, config.clientSecret)) {
+        app.log.error(`[Auth] Invalid OAuth HMAC for ${shop}`);
+        return reply.code(401).send({ error: 'Invalid signature' });
+      }
+
+      if (!verifyOAuthState(state, shop, config.clientSecret)) {
+        app.log.error(`[Auth] Invalid or expired OAuth state for ${shop}`);
+        return reply.code(401).send({ error: 'Invalid state' });
+      }
+
+      try {
+        const { accessToken, scope } = await exchangeCodeForToken(shop, code, config);
+        await saveInstalledShop(shop, accessToken, scope);
+
+        app.log.info(`[Auth] Shop ${shop} installed with scopes: ${scope}`);
+        return reply.redirect(`https://${shop}/admin/apps`);
+      } catch (error) {
+        const err = error as Error;
+        app.log.error({ err }, `[Auth] Failed to complete OAuth install for ${shop}`);
+        return reply.code(502).send({ error: 'Failed to complete installation' });
+      }
+    },
+  );
+
+  done();
+}
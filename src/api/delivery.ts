@@ -0,0 +1,107 @@
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import prisma from '../db/prisma';
+import { findDeliveryByAccessToken } from '../services/deliveryAccess';
+import { loadDeliveryContent } from '../services/delivery';
+import { buildDeliveryPageHtml, buildDeliveryNotFoundHtml } from '../services/deliveryPage';
+import {
+  generateEsimPDF,
+  formatUnitLabel,
+  getInstallDetails,
+  recordDeliveryAttempt,
+} from '../services/email';
+
+type TokenRequest = FastifyRequest<{ Params: { token: string } }>;
+
+// The token is the credential: keep it out of caches, search indexes and Referer headers
+function setPrivateHeaders(reply: FastifyReply) {
+  reply
+    .header('Cache-Control', 'no-store')
+    .header('Referrer-Policy', 'no-referrer')
+    .header('X-Robots-Tag', 'noindex, nofollow');
+}
+
+/**
+ * Customer retrieval routes (linked from the delivery email)
+ * GET /delivery/:token - QR code, install instructions and manual codes
+ * GET /delivery/:token/pdf - The same PDF as the email attachment
+ * GET /delivery/:token/install-links - One-tap iPhone/Android install links as JSON
+ */
+export default function deliveryRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  /**
+   * GET /delivery/:token
+   */
+  app.get('/:token', async (request: TokenRequest, reply: FastifyReply) => {
+    setPrivateHeaders(reply);
+
+    const delivery = await findDeliveryByAccessToken(request.params.token);
+    if (!delivery) {
+      return reply.code(404).type('text/html').send(buildDeliveryNotFoundHtml());
+    }
+
+    const content = await loadDeliveryContent(delivery);
+    const html = await buildDeliveryPageHtml(content, `/delivery/${request.params.token}/pdf`);
+
+    await recordDeliveryAttempt(prisma, delivery.id, 'web', 'viewed');
+    app.log.info(`[Delivery] Retrieval page viewed for delivery ${delivery.id}`);
+
+    return reply.type('text/html').send(html);
+  });
+
+  /**
+   * GET /delivery/:token/pdf
+   */
+  app.get('/:token/pdf', async (request: TokenRequest, reply: FastifyReply) => {
+    setPrivateHeaders(reply);
+
+    const delivery = await findDeliveryByAccessToken(request.params.token);
+    if (!delivery) {
+      return reply.code(404).type('text/html').send(buildDeliveryNotFoundHtml());
+    }
+
+    const content = await loadDeliveryContent(delivery);
+    const pdfBase64 = await generateEsimPDF(content);
+    const fileSuffix = formatUnitLabel(content) ? `-${delivery.unitIndex + 1}` : '';
+
+    await recordDeliveryAttempt(prisma, delivery.id, 'web', 'pdf_downloaded');
+
+    return reply
+      .type('application/pdf')
+      .header(
+        'Content-Disposition',
+        `attachment; filename="eSIM-${delivery.orderName}${fileSuffix}.pdf"`,
+      )
+      .send(Buffer.from(pdfBase64, 'base64'));
+  });
+
+  /**
+   * GET /delivery/:token/install-links
+   */
+  app.get('/:token/install-links', async (request: TokenRequest, reply: FastifyReply) => {
+    setPrivateHeaders(reply);
+
+    const delivery = await findDeliveryByAccessToken(request.params.token);
+    if (!delivery) {
+      return reply
+        .code(404)
+        .send({ error: 'Not found', message: 'This link is invalid or has expired' });
+    }
+
+    const { esimPayload } = await loadDeliveryContent(delivery);
+    const { links } = getInstallDetails(esimPayload);
+    if (!links) {
+      return reply
+        .code(422)
+        .send({ error: 'No install links', message: 'Activation code could not be parsed' });
+    }
+
+    await recordDeliveryAttempt(prisma, delivery.id, 'web', 'install_links');
+
+    return reply.send(links);
+  });
+
+  done();
+}
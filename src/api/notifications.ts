@@ -0,0 +1,85 @@
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import { isValidUnsubscribeToken, unsubscribeFromUsageAlerts } from '../services/usageAlerts';
+
+type UnsubscribeRequest = FastifyRequest<{ Querystring: { token?: string } }>;
+
+type UnsubscribePageState = 'confirm' | 'done' | 'invalid';
+
+const PAGE_TITLES: Record<UnsubscribePageState, string> = {
+  confirm: 'Unsubscribe from usage alerts?',
+  done: 'Unsubscribed',
+  invalid: 'Link expired',
+};
+
+function buildUnsubscribePage(state: UnsubscribePageState, token = ''): string {
+  const body = {
+    confirm: `<p>You'll stop receiving data and expiry alerts for your eSIMs. Delivery emails are not affected.</p>
+  <form method="post" action="unsubscribe?token=${encodeURIComponent(token)}">
+    <input type="hidden" name="List-Unsubscribe" value="One-Click">
+    <button type="submit" style="background: #2c5282; color: #fff; border: 0; border-radius: 4px; padding: 10px 20px; font-size: 16px; cursor: pointer;">Unsubscribe</button>
+  </form>`,
+    done: "<p>You won't receive data and expiry alerts for your eSIMs any more. Delivery emails are not affected.</p>",
+    invalid: '<p>This unsubscribe link is invalid or has expired.</p>',
+  }[state];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>${PAGE_TITLES[state]}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 40px auto; padding: 0 20px; color: #333;">
+  <h1 style="color: #2c5282;">${PAGE_TITLES[state]}</h1>
+  ${body}
+</body>
+</html>
+`;
+}
+
+function sendPage(reply: FastifyReply, state: UnsubscribePageState, token?: string) {
+  return reply
+    .code(state === 'invalid' ? 400 : 200)
+    .header('Cache-Control', 'no-store')
+    .type('text/html')
+    .send(buildUnsubscribePage(state, token));
+}
+
+/**
+ * Customer notification preference routes
+ * GET /notifications/unsubscribe?token=... - Confirmation page for the link in usage alert emails
+ * POST /notifications/unsubscribe?token=... - Unsubscribe (confirmation form, or RFC 8058 one-click)
+ */
+export default function notificationRoutes(
+  app: FastifyInstance,
+  _opts: FastifyPluginOptions,
+  done: () => void,
+) {
+  // One-click unsubscribe posts "List-Unsubscribe=One-Click" as a form body; the token is in the URL
+  app.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (_req, body, parserDone) => {
+      parserDone(null, body);
+    },
+  );
+
+  // Mail scanners and link prefetchers follow GET links, so GET only asks for confirmation
+  app.get('/unsubscribe', async (request: UnsubscribeRequest, reply: FastifyReply) => {
+    const { token } = request.query;
+    return token && isValidUnsubscribeToken(token)
+      ? sendPage(reply, 'confirm', token)
+      : sendPage(reply, 'invalid');
+  });
+
+  // The confirmation form and RFC 8058 one-click unsubscribe from the mail client
+  app.post('/unsubscribe', async (request: UnsubscribeRequest, reply: FastifyReply) => {
+    const success = request.query.token
+      ? await unsubscribeFromUsageAlerts(request.query.token)
+      : false;
+    return sendPage(reply, success ? 'done' : 'invalid');
+  });
+
+  done();
+}
@@ -1,60 +1,180 @@
 import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
 import prisma from '../db/prisma';
-import FiRoamClient from '../vendor/firoamClient';
 import { decrypt } from '../utils/crypto';
+import { findLegacyLinkDelivery } from '../services/esimLookup';
+import { verifyUsageToken } from '../services/usageLinks';
+import { queryEsimUsage, getDailyUsage } from '../services/esimUsage';
+
+const historyQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+/**
+ * Query the eSIM's provider and reply with the usage summary for one eSIM
+ */
+async function sendUsage(
+  reply: FastifyReply,
+  delivery: { provider: string | null; sku: string | null; orderName: string },
+  iccid: string,
+) {
+  const result = await queryEsimUsage(delivery, iccid);
+
+  if (!result.success) {
+    return result.notFound
+      ? reply.code(404).send({ error: 'Package not found', message: result.error })
+      : reply.code(500).send({ error: 'Failed to fetch usage data', message: result.error });
+  }
+
+  const { usage } = result;
+  const { totalMb, usedMb } = usage;
+
+  // Calculate usage percentage
+  const usagePercent = totalMb > 0 ? (usedMb / totalMb) * 100 : 0;
+
+  // Set cache headers to reduce vendor API calls
+  // Usage data doesn't change frequently, cache for 5 minutes (browser only - the URL is the credential)
+  reply.header('Cache-Control', 'private, max-age=300');
+
+  // Return formatted usage data
+  return reply.send({
+    iccid,
+    orderNum: delivery.orderName, // Shopify order number (e.g., #1001)
+    packageName: usage.packageName,
+    region: usage.productName, // Region/country from the vendor's product name
+    usage: {
+      total: usage.total,
+      unit: usage.unit,
+      totalMb,
+      usedMb,
+      remainingMb: totalMb - usedMb,
+      usagePercent: Math.round(usagePercent * 100) / 100,
+    },
+    validity: {
+      days: usage.days,
+      beginDate: usage.beginDate,
+      endDate: usage.endDate,
+    },
+    status: usage.status,
+    orderDetails: {
+      skuId: usage.productId,
+      skuName: usage.productName,
+      createTime: usage.orderedAt,
+    },
+  });
+}
 
 /**
  * Usage tracking API routes
- * GET /api/esim/:iccid/usage - Get data usage for specific ICCID
+ * GET /api/esim/usage/:token - Data usage for the delivery a signed email link was issued for
+ * GET /api/esim/usage/:token/history - Daily consumption from polled snapshots (?days=30)
+ * GET /api/esim/:iccid/usage - Legacy bare-ICCID lookup for eSIMs emailed before signed links
  */
 export default function usageRoutes(
   app: FastifyInstance,
   _opts: FastifyPluginOptions,
   done: () => void,
 ) {
+  /**
+   * GET /api/esim/usage/:token
+   * The token is an HMAC over the delivery id and expiry, so it can't be guessed from an ICCID
+   */
+  app.get(
+    '/api/esim/usage/:token',
+    async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+      const deliveryId = verifyUsageToken(request.params.token);
+      if (!deliveryId) {
+        return reply.code(401).send({
+          error: 'Invalid link',
+          message: 'This usage link is invalid or has expired',
+        });
+      }
+
+      try {
+        const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+        if (!delivery || delivery.status !== 'delivered' || !delivery.payloadEncrypted) {
+          return reply.code(404).send({
+            error: 'eSIM not found',
+            message: 'No active eSIM found for this link',
+          });
+        }
+
+        const { iccid } = JSON.parse(decrypt(delivery.payloadEncrypted)) as { iccid?: string };
+        if (!iccid) {
+          return reply.code(404).send({ error: 'eSIM not found', message: 'No ICCID on record' });
+        }
+
+        app.log.info(`[Usage API] Fetching usage for delivery ${deliveryId}`);
+        return await sendUsage(reply, delivery, iccid);
+      } catch (error) {
+        app.log.error({ error }, '[Usage API] Error fetching usage data');
+        return reply.code(500).send({
+          error: 'Internal server error',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    },
+  );
+
+  /**
+   * GET /api/esim/usage/:token/history
+   * Served from UsageSnapshot rows, so it never calls FiRoam. Signed like the live endpoint,
+   * since a bare-ICCID history route would reopen the enumeration the tokens close.
+   */
+  app.get(
+    '/api/esim/usage/:token/history',
+    async (request: FastifyRequest<{ Params: { token: string } }>, reply: FastifyReply) => {
+      const deliveryId = verifyUsageToken(request.params.token);
+      if (!deliveryId) {
+        return reply.code(401).send({
+          error: 'Invalid link',
+          message: 'This usage link is invalid or has expired',
+        });
+      }
+
+      const parsed = historyQuerySchema.safeParse(request.query);
+      if (!parsed.success) {
+        return reply.code(400).send({ error: 'Invalid query', details: parsed.error.issues });
+      }
+
+      const latest = await prisma.usageSnapshot.findFirst({
+        where: { deliveryId },
+        orderBy: { capturedAt: 'desc' },
+      });
+
+      reply.header('Cache-Control', 'private, max-age=300');
+      return reply.send({
+        days: await getDailyUsage(deliveryId, parsed.data.days),
+        latest: latest && {
+          usedMb: latest.usedMb,
+          totalMb: latest.totalMb,
+          status: latest.status,
+          beginDate: latest.beginDate,
+          endDate: latest.endDate,
+          capturedAt: latest.capturedAt,
+        },
+      });
+    },
+  );
+
   /**
    * GET /api/esim/:iccid/usage
    * Get current data usage for an eSIM by ICCID
    */
   app.get(
     '/api/esim/:iccid/usage',
+    {
+      // ICCIDs are near-sequential, so keep enumeration slow until the route is retired
+      config: { rateLimit: { max: 10, timeWindow: '15 minutes' } },
+    },
     async (request: FastifyRequest<{ Params: { iccid: string } }>, reply: FastifyReply) => {
       const { iccid } = request.params;
 
       try {
-        app.log.info(`[Usage API] Fetching usage for ICCID: ${iccid}`);
-
-        // Find the delivery record by decrypting payloads and searching for ICCID
-        const deliveries = await prisma.esimDelivery.findMany({
-          where: {
-            status: 'delivered',
-            payloadEncrypted: { not: null },
-          },
-          select: {
-            id: true,
-            vendorReferenceId: true,
-            payloadEncrypted: true,
-            orderName: true,
-            customerEmail: true,
-          },
-        });
+        app.log.info(`[Usage API] Legacy usage lookup for ICCID: ${iccid}`);
 
-        let matchingDelivery = null;
-        for (const delivery of deliveries) {
-          if (delivery.payloadEncrypted) {
-            try {
-              const decrypted = decrypt(delivery.payloadEncrypted);
-              const payload = JSON.parse(decrypted);
-              if (payload.iccid === iccid) {
-                matchingDelivery = delivery;
-                break;
-              }
-            } catch (err) {
-              // Skip invalid payloads
-              continue;
-            }
-          }
-        }
+        // Indexed lookup by keyed ICCID hash, limited to eSIMs emailed a bare-ICCID link
+        const matchingDelivery = await findLegacyLinkDelivery(iccid);
 
         if (!matchingDelivery) {
           return reply.code(404).send({
@@ -63,66 +183,14 @@ export default function usageRoutes(
           });
         }
 
-        // Query FiRoam for current usage data
-        const fiRoam = new FiRoamClient();
-        const usageResult = await fiRoam.queryEsimOrder({ iccid });
-
-        if (!usageResult.success || !usageResult.orders || usageResult.orders.length === 0) {
-          return reply.code(500).send({
-            error: 'Failed to fetch usage data',
-            message: usageResult.error || 'No usage data available',
+        if (matchingDelivery.legacyLinkUntil && matchingDelivery.legacyLinkUntil < new Date()) {
+          return reply.code(410).send({
+            error: 'Link expired',
+            message: 'Please use the usage link from your latest eSIM email',
           });
         }
 
-        // Find the package with matching ICCID
-        const order = usageResult.orders[0];
-        const packageData = order.packages.find((pkg) => pkg.iccid === iccid);
-
-        if (!packageData) {
-          return reply.code(404).send({
-            error: 'Package not found',
-            message: 'ICCID not found in order packages',
-          });
-        }
-
-        // Calculate usage percentage
-        const totalMb =
-          packageData.unit === 'GB'
-            ? (packageData.flows as number) * 1024
-            : (packageData.flows as number);
-        const usedMb = packageData.usedMb as number;
-        const usagePercent = totalMb > 0 ? (usedMb / totalMb) * 100 : 0;
-
-        // Set cache headers to reduce vendor API calls
-        // Usage data doesn't change frequently, cache for 5 minutes
-        reply.header('Cache-Control', 'public, max-age=300, s-maxage=300');
-
-        // Return formatted usage data
-        return reply.send({
-          iccid,
-          orderNum: matchingDelivery.orderName, // Shopify order number (e.g., #1001)
-          packageName: packageData.name,
-          region: order.skuName, // Region/country from SKU name
-          usage: {
-            total: packageData.flows,
-            unit: packageData.unit,
-            totalMb,
-            usedMb,
-            remainingMb: totalMb - usedMb,
-            usagePercent: Math.round(usagePercent * 100) / 100,
-          },
-          validity: {
-            days: packageData.days,
-            beginDate: packageData.beginDate,
-            endDate: packageData.endDate,
-          },
-          status: packageData.status,
-          orderDetails: {
-            skuId: order.skuId,
-            skuName: order.skuName,
-            createTime: order.createTime,
-          },
-        });
+        return await sendUsage(reply, matchingDelivery, iccid);
       } catch (error) {
         app.log.error({ error }, '[Usage API] Error fetching usage data');
         return reply.code(500).send({
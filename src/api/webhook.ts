@@ -1,34 +1,101 @@
+import crypto from 'crypto';
 import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply } from 'fastify';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
 import { verifyShopifyWebhook } from '../shopify/webhooks';
-import { getJobQueue } from '../queue/jobQueue';
-
-const prisma = new PrismaClient();
-
-interface ShopifyOrderPaidWebhook {
-  id: number;
-  name: string;
-  email: string;
-  contact_email?: string;
-  customer?: {
-    id: number;
-    email: string;
-    first_name: string;
-    last_name: string;
-    phone?: string;
-  };
-  billing_address?: {
-    email?: string;
+import { enqueueWebhookEvent } from '../services/shopifyWebhooks';
+import { getShopWebhookSecret } from '../services/shops';
+
+/**
+ * Verify the Shopify HMAC signature on a webhook request using the sending shop's secret.
+ * Sends the error response itself and returns null when verification fails.
+ */
+async function verifyWebhookRequest(
+  app: FastifyInstance,
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<{ rawBody: string; shopDomain: string } | null> {
+  // Get raw body for HMAC verification
+  const rawBody = (request as unknown as { rawBody?: string }).rawBody;
+  const hmacHeader = request.headers['x-shopify-hmac-sha256'] as string;
+  const shopDomain = request.headers['x-shopify-shop-domain'] as string;
+
+  if (!rawBody) {
+    app.log.error('[Webhook] No raw body available');
+    reply.code(400).send({ error: 'Missing request body' });
+    return null;
+  }
+
+  if (!hmacHeader) {
+    app.log.error('[Webhook] Missing HMAC header');
+    reply.code(401).send({ error: 'Missing HMAC signature' });
+    return null;
+  }
+
+  // Verify HMAC signature
+  const webhookSecret = await getShopWebhookSecret(shopDomain);
+  if (!webhookSecret) {
+    app.log.error(`[Webhook] No webhook secret configured for ${shopDomain || 'unknown shop'}`);
+    reply.code(500).send({ error: 'Server misconfiguration' });
+    return null;
+  }
+
+  const isValid = verifyShopifyWebhook(rawBody, hmacHeader, webhookSecret);
+  if (!isValid) {
+    app.log.error('[Webhook] Invalid HMAC signature');
+    reply.code(401).send({ error: 'Invalid signature' });
+    return null;
+  }
+
+  return { rawBody, shopDomain };
+}
+
+/**
+ * Build a Fastify handler that verifies, stores and enqueues a webhook for the given topic.
+ * Returns 200 only once the event is persisted, so Shopify retries anything we failed to store.
+ */
+function receiveWebhook(app: FastifyInstance, topic: string) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const verified = await verifyWebhookRequest(app, request, reply);
+    if (!verified) return reply;
+    const { rawBody, shopDomain } = verified;
+
+    // Shopify sends the same X-Shopify-Webhook-Id on every retry of a delivery
+    const webhookId =
+      (request.headers['x-shopify-webhook-id'] as string) ||
+      `sha256:${crypto.createHash('sha256').update(`${topic}:${rawBody}`).digest('hex')}`;
+
+    let eventId: string;
+    try {
+      const event = await prisma.webhookEvent.create({
+        data: { webhookId, topic, shop: shopDomain || 'unknown', payload: rawBody },
+      });
+      eventId = event.id;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        app.log.info(`[Webhook] Duplicate ${topic} webhook ${webhookId}, skipping`);
+        return reply.code(200).send({ received: true, duplicate: true });
+      }
+
+      const err = error as Error;
+      app.log.error({ err }, `[Webhook] Failed to store ${topic} webhook ${webhookId}`);
+      // Not persisted - let Shopify retry
+      return reply.code(500).send({ error: 'Failed to store webhook' });
+    }
+
+    app.log.info(`[Webhook] Stored ${topic} webhook ${webhookId} as event ${eventId}`);
+
+    try {
+      await enqueueWebhookEvent(eventId);
+    } catch (error) {
+      // The event is safely stored - it can be replayed with `npm run webhook:replay`
+      const err = error as Error;
+      app.log.error({ err }, `[Webhook] Failed to enqueue event ${eventId}`);
+    }
+
+    // Always return 200 quickly to avoid Shopify retries
+    return reply.code(200).send({ received: true });
   };
-  line_items: Array<{
-    id: number;
-    variant_id: number;
-    quantity: number;
-    product_id: number;
-    title: string;
-    name: string;
-    sku?: string;
-  }>;
 }
 
 export default function webhookRoutes(
@@ -40,125 +107,49 @@ export default function webhookRoutes(
    * POST /webhook/orders/paid
    * Handle Shopify order payment webhook
    */
-  app.post('/orders/paid', async (request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      // Get raw body for HMAC verification
-      const rawBody = (request as unknown as { rawBody?: string }).rawBody;
-      const hmacHeader = request.headers['x-shopify-hmac-sha256'] as string;
-      const shopDomain = request.headers['x-shopify-shop-domain'] as string;
-
-      if (!rawBody) {
-        app.log.error('[Webhook] No raw body available');
-        return reply.code(400).send({ error: 'Missing request body' });
-      }
+  app.post('/orders/paid', receiveWebhook(app, 'orders/paid'));
 
-      if (!hmacHeader) {
-        app.log.error('[Webhook] Missing HMAC header');
-        return reply.code(401).send({ error: 'Missing HMAC signature' });
-      }
+  /**
+   * POST /webhook/orders/cancelled
+   * Cancel every eSIM on a cancelled Shopify order with the vendor
+   */
+  app.post('/orders/cancelled', receiveWebhook(app, 'orders/cancelled'));
 
-      // Verify HMAC signature
-      const webhookSecret = process.env.SHOPIFY_WEBHOOK_SECRET!;
-      if (!webhookSecret) {
-        app.log.error('[Webhook] SHOPIFY_WEBHOOK_SECRET not configured');
-        return reply.code(500).send({ error: 'Server misconfiguration' });
-      }
+  /**
+   * POST /webhook/orders/updated
+   * Resend delivered eSIMs when the order email is corrected
+   */
+  app.post('/orders/updated', receiveWebhook(app, 'orders/updated'));
 
-      const isValid = verifyShopifyWebhook(rawBody, hmacHeader, webhookSecret);
-      if (!isValid) {
-        app.log.error('[Webhook] Invalid HMAC signature');
-        return reply.code(401).send({ error: 'Invalid signature' });
-      }
+  /**
+   * POST /webhook/refunds/create
+   * Cancel the refunded quantity of each line item with the vendor
+   */
+  app.post('/refunds/create', receiveWebhook(app, 'refunds/create'));
 
-      // Parse webhook payload
-      const webhook: ShopifyOrderPaidWebhook = JSON.parse(rawBody);
-      const orderId = webhook.id.toString();
-      const orderName = webhook.name;
-
-      // Debug: Log email fields
-      app.log.info(
-        `[Webhook] Order ${orderName} - webhook.email: ${webhook.email}, customer?.email: ${webhook.customer?.email}`,
-      );
-
-      // Use customer email if available, fallback to order email
-      const customerEmail = webhook.customer?.email || webhook.email;
-
-      if (!customerEmail) {
-        app.log.error(
-          `[Webhook] No email found for order ${orderName}. Webhook payload: ${JSON.stringify({
-            email: webhook.email,
-            customer: webhook.customer,
-            contact_email: webhook.contact_email,
-            billing_address: webhook.billing_address?.email,
-          })}`,
-        );
-        return reply.code(400).send({ error: 'No customer email' });
-      }
+  /**
+   * POST /webhook/app/uninstalled
+   * Deactivate the shop and discard its access token
+   */
+  app.post('/app/uninstalled', receiveWebhook(app, 'app/uninstalled'));
 
-      app.log.info(`[Webhook] Received orders/paid for ${orderName} (${orderId})`);
-
-      // Get job queue
-      const queue = getJobQueue();
-
-      // Process each line item
-      for (const lineItem of webhook.line_items) {
-        const lineItemId = lineItem.id.toString();
-        const variantId = lineItem.variant_id.toString();
-
-        // Check if already processed (idempotency)
-        const existing = await prisma.esimDelivery.findFirst({
-          where: {
-            orderId,
-            lineItemId,
-          },
-        });
-
-        if (existing) {
-          app.log.info(
-            `[Webhook] Order ${orderName} line item ${lineItemId} already processed, skipping`,
-          );
-          continue;
-        }
-
-        // Create delivery record
-        const delivery = await prisma.esimDelivery.create({
-          data: {
-            shop: shopDomain,
-            orderId,
-            orderName,
-            lineItemId,
-            variantId,
-            customerEmail,
-            status: 'pending',
-          },
-        });
-
-        app.log.info(`[Webhook] Created delivery record ${delivery.id} for ${orderName}`);
-
-        // Enqueue provisioning job
-        await queue.send('provision-esim', {
-          deliveryId: delivery.id,
-          orderId,
-          orderName,
-          lineItemId,
-          variantId,
-          customerEmail,
-          sku: lineItem.sku || null,
-        });
-
-        app.log.info(`[Webhook] Enqueued provisioning job for delivery ${delivery.id}`);
-      }
+  /**
+   * POST /webhook/customers/data_request
+   * GDPR: export a customer's deliveries for the merchant
+   */
+  app.post('/customers/data_request', receiveWebhook(app, 'customers/data_request'));
 
-      // Always return 200 quickly to avoid Shopify retries
-      return reply.code(200).send({ received: true });
-    } catch (error) {
-      const err = error as Error;
-      app.log.error({ err }, '[Webhook] Error processing webhook');
+  /**
+   * POST /webhook/customers/redact
+   * GDPR: erase a customer's email and eSIM payloads
+   */
+  app.post('/customers/redact', receiveWebhook(app, 'customers/redact'));
 
-      // Still return 200 to avoid retries - log error for investigation
-      return reply.code(200).send({ received: true, error: 'Processing error' });
-    }
-  });
+  /**
+   * POST /webhook/shop/redact
+   * GDPR: erase all customer data for an uninstalled shop
+   */
+  app.post('/shop/redact', receiveWebhook(app, 'shop/redact'));
 
   /**
    * GET /webhook/test
@@ -0,0 +1,88 @@
+import { ar } from './locales/ar';
+import { de } from './locales/de';
+import { en, type Messages } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+
+export type { Messages };
+
+const catalogs = { en, es, fr, de, ar } satisfies Record<string, Messages>;
+
+export type Locale = keyof typeof catalogs;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const RTL_LOCALES: ReadonlySet<Locale> = new Set<Locale>(['ar']);
+
+/**
+ * FiRoam pdfLanguage codes (API doc appendix 3.2), keyed by base language.
+ * Wider than our own catalogs - FiRoam's PDF can be localized even when our email is not.
+ */
+const FIROAM_PDF_LANGUAGES: Record<string, string> = {
+  en: 'en-US',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  ru: 'ru-RU',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  ko: 'ko-KR',
+  de: 'de-DE',
+  it: 'it-IT',
+  id: 'id-ID',
+  ar: 'ar-SA',
+  pt: 'pt-BR',
+  vi: 'vi-VN',
+  th: 'th-TH',
+};
+
+// Traditional Chinese regions get FiRoam's zh-TW PDF
+const TRADITIONAL_CHINESE = /^zh[-_](tw|hk|mo|hant)\b/i;
+
+function baseLanguage(tag: string): string {
+  return tag.trim().split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Pick the first candidate (e.g. order customer_locale, then shop default) that has a catalog.
+ * Accepts any BCP 47-ish tag ("pt-BR", "fr_CA"); only the language subtag is matched.
+ */
+export function resolveLocale(...candidates: Array<string | null | undefined>): Locale {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const base = baseLanguage(candidate);
+    if (base in catalogs) return base as Locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale];
+}
+
+export function isRtl(locale: Locale): boolean {
+  return RTL_LOCALES.has(locale);
+}
+
+/**
+ * Replace "{name}" placeholders. Unknown placeholders are left as-is.
+ */
+export function format(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in vars ? String(vars[key]) : match,
+  );
+}
+
+/**
+ * Map the same candidates to FiRoam's pdfLanguage, or undefined to keep FiRoam's default.
+ */
+export function toFiRoamPdfLanguage(
+  ...candidates: Array<string | null | undefined>
+): string | undefined {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    if (TRADITIONAL_CHINESE.test(candidate.trim())) return 'zh-TW';
+    const code = FIROAM_PDF_LANGUAGES[baseLanguage(candidate)];
+    if (code) return code;
+  }
+  return undefined;
+}
@@ -0,0 +1,112 @@
+import type { Messages } from './en';
+
+// Right-to-left: arrows point the way the reader's eye moves (←)
+export const ar: Messages = {
+  subject: 'شريحة eSIM الخاصة بك جاهزة! - الطلب {orderNumber}',
+  unitLabel: 'شريحة eSIM رقم {index} من {count}',
+  title: 'شريحة eSIM الخاصة بك جاهزة!',
+  order: 'الطلب {orderNumber}',
+  defaultProductTitle: 'شريحة eSIM الخاصة بك',
+  thanks: 'شكرًا لشرائك! شريحة **{productTitle}** جاهزة للتثبيت.',
+  unitNotice:
+    'تحتوي هذه الرسالة على **{unitLabel}** من طلبك. تصل كل شريحة eSIM في رسالة منفصلة ويجب تثبيتها على جهاز مختلف.',
+
+  detailsTitle: 'تفاصيل الشريحة',
+  region: 'المنطقة',
+  data: 'البيانات',
+  validity: 'الصلاحية',
+
+  warningTitle: 'اقرأ هذا قبل التثبيت:',
+  warnings: [
+    '**ثبّت الشريحة قبل السفر** - تحتاج إلى شبكة WiFi للتثبيت',
+    'يمكن تثبيت كل رمز QR **مرة واحدة فقط** - احتفظ بهذه الرسالة',
+    'بعد التثبيت، أبقِ الشريحة **مطفأة** حتى تصل إلى وجهتك',
+    'شغّلها وفعّل **تجوال البيانات** فقط عند وصولك',
+    'لا تحذف ملف الشريحة - لا يمكن إعادة تثبيته',
+  ],
+
+  viewOnline: 'فقدت هذه الرسالة أو تريد التثبيت على جهاز آخر؟',
+  viewOnlineLink: 'اعرض شريحتك عبر الإنترنت',
+
+  installTitle: 'ثبّت شريحة eSIM',
+  installIphone: 'التثبيت على iPhone',
+  installAndroid: 'التثبيت على Android',
+  installLinksHint: 'هل تقرأ هذا على الهاتف الذي ستثبّت عليه الشريحة؟ اضغط على زر هاتفك.',
+  scanHint: 'أو امسح رمز QR أدناه من تطبيق الإعدادات في هاتفك.',
+  scanOnlyHint: 'امسح رمز QR أدناه من تطبيق الإعدادات في هاتفك.',
+  keepQrSafe: 'احتفظ برمز QR هذا - قد تحتاجه لإعادة تثبيت الشريحة.',
+
+  howToInstall: 'طريقة التثبيت',
+  iphoneTitle: 'iPhone (iOS 17.4+)',
+  iphoneSteps: [
+    'تأكد من اتصالك بشبكة **WiFi**',
+    'اضغط على زر **"التثبيت على iPhone"** أعلاه (الطريقة الأسهل)',
+    'أو انتقل إلى **الإعدادات ← الخلوي ← إضافة eSIM** وامسح رمز QR',
+    'بعد التثبيت، أبقِ الشريحة **مطفأة** حتى تصل إلى وجهتك',
+  ],
+  androidTitle: 'Android',
+  androidSteps: [
+    'تأكد من اتصالك بشبكة **WiFi**',
+    'انتقل إلى **الإعدادات ← الشبكة والإنترنت ← شرائح SIM**',
+    'اضغط على **إضافة eSIM** أو **تنزيل شريحة SIM بدلاً من ذلك؟**',
+    'اختر **مسح رمز QR** وامسح الرمز أعلاه',
+    'بعد التثبيت، أبقِ الشريحة **مطفأة** حتى تصل',
+  ],
+
+  activateTitle: 'طريقة التفعيل (عند الوصول)',
+  activateSteps: [
+    'عند وصولك إلى وجهتك، انتقل إلى **الإعدادات ← الخلوي/بيانات الجوال**',
+    'اختر شريحة eSIM و**شغّلها**',
+    'فعّل **تجوال البيانات** للشريحة',
+    'إذا لم يظهر اتصال، شغّل **وضع الطيران** ثم أطفئه أو أعد تشغيل الهاتف',
+  ],
+
+  monitorTitle: 'بعد التفعيل: تابع استهلاك بياناتك',
+  monitorBody: 'بمجرد تفعيل الشريحة، تابع استهلاك بياناتك لحظة بلحظة واطّلع على الرصيد المتبقي.',
+  monitorButton: 'عرض لوحة الاستهلاك',
+  monitorHint: 'اطّلع على البيانات المتبقية وسجل الاستهلاك ومدة الصلاحية',
+
+  manualTitle: 'التثبيت اليدوي (إذا لم ينجح مسح رمز QR)',
+  manualBody: 'أدخل هذه التفاصيل يدويًا في إعدادات eSIM:',
+  smdpLabel: 'عنوان SM-DP+',
+  activationCodeLabel: 'رمز التفعيل',
+  iccidLabel: 'ICCID',
+
+  textInstall: 'امسح رمز QR المرفق بهذه الرسالة، أو استخدم التفاصيل اليدوية أدناه.',
+  textViewOnline: 'يمكنك أيضًا عرض رمز QR عبر الإنترنت: {url}',
+  textInstallLinks: 'على الهاتف الذي ستثبّت عليه الشريحة، افتح الرابط الخاص بهاتفك:',
+
+  pdfQuickInstall: 'تثبيت سريع على هذا الهاتف:',
+  pdfQuickInstallHint: '(يفتح إعداد eSIM في إعدادات هاتفك عند الضغط عليه)',
+  pdfScanTitle: 'امسح للتثبيت',
+  pdfScanHint: 'امسح رمز QR هذا من الإعدادات ← إضافة eSIM',
+  pdfInstructionsTitle: 'تعليمات التثبيت',
+  pdfGenerated: 'تاريخ الإنشاء: {date}',
+
+  renewalSubject: 'تم شحن شريحة eSIM الخاصة بك - الطلب {orderNumber}',
+  renewalTitle: 'تم شحن شريحة eSIM الخاصة بك',
+  renewalDefaultProduct: 'شحن شريحة eSIM',
+  renewalAdded: 'تمت إضافة **{productTitle}** إلى شريحة eSIM المثبتة لديك بالفعل.',
+  renewalNothingToInstall:
+    '**لا يوجد شيء جديد لتثبيته.** واصل استخدام شريحة eSIM نفسها - الباقة الجديدة مفعّلة عليها بالفعل.',
+
+  alertDefaultProduct: 'eSIM',
+  alertUsage80Subject: 'لقد استخدمت 80% من بيانات {productTitle}',
+  alertUsage80Body:
+    'لقد استخدمت {used} من أصل {total} على {productTitle} (الطلب {orderNumber}). لم يتبقَّ سوى {remaining} - اشحن الآن حتى لا ينقطع اتصالك أثناء الرحلة.',
+  alertUsage100Subject: 'نفدت بيانات {productTitle}',
+  alertUsage100Body:
+    'لقد استخدمت كامل {total} على {productTitle} (الطلب {orderNumber}). احصل على باقة جديدة لتبقى متصلًا.',
+  alertExpiringSubject: 'تنتهي صلاحية {productTitle} قريبًا',
+  alertExpiringOnBody:
+    'تنتهي صلاحية {productTitle} (الطلب {orderNumber}) في {date}. لا يزال لديك {remaining} من البيانات حتى ذلك الحين. ستبقى مدة أطول؟ اشحن قبل انتهائها.',
+  alertExpiringSoonBody:
+    'تنتهي صلاحية {productTitle} (الطلب {orderNumber}) خلال 24 ساعة. لا يزال لديك {remaining} من البيانات حتى ذلك الحين. ستبقى مدة أطول؟ اشحن قبل انتهائها.',
+  alertTopUp: 'اشحن بياناتي',
+  alertUnsubscribe: 'إلغاء الاشتراك في تنبيهات البيانات وانتهاء الصلاحية',
+  viewUsage: 'عرض استهلاكي',
+
+  help: 'تحتاج إلى مساعدة؟ رُد على هذه الرسالة أو تواصل مع فريق الدعم.',
+  helpWithEmail: 'تحتاج إلى مساعدة؟ رُد على هذه الرسالة أو تواصل مع فريق الدعم عبر {supportEmail}.',
+  rights: 'جميع الحقوق محفوظة.',
+};
@@ -0,0 +1,115 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  subject: 'Deine eSIM ist bereit! - Bestellung {orderNumber}',
+  unitLabel: 'eSIM {index} von {count}',
+  title: 'Deine eSIM ist bereit!',
+  order: 'Bestellung {orderNumber}',
+  defaultProductTitle: 'Deine eSIM',
+  thanks:
+    'Vielen Dank für deinen Einkauf! Deine eSIM **{productTitle}** ist bereit zur Installation.',
+  unitNotice:
+    'Diese E-Mail enthält **{unitLabel}** aus deiner Bestellung. Jede eSIM kommt in einer eigenen E-Mail und muss auf einem eigenen Gerät installiert werden.',
+
+  detailsTitle: 'eSIM-Details',
+  region: 'Region',
+  data: 'Daten',
+  validity: 'Gültigkeit',
+
+  warningTitle: 'Vor der Installation lesen:',
+  warnings: [
+    '**VOR der Reise installieren** - für die Installation brauchst du WLAN',
+    'Jeder QR-Code kann nur **einmal** installiert werden - bewahre diese E-Mail gut auf',
+    'Lass die eSIM nach der Installation **ausgeschaltet**, bis du am Ziel bist',
+    'Schalte sie erst bei der Ankunft ein und aktiviere **Datenroaming**',
+    'Lösche das eSIM-Profil nicht - es kann nicht erneut installiert werden',
+  ],
+
+  viewOnline: 'E-Mail verloren oder Installation auf einem anderen Gerät?',
+  viewOnlineLink: 'eSIM online ansehen',
+
+  installTitle: 'eSIM installieren',
+  installIphone: 'Auf dem iPhone installieren',
+  installAndroid: 'Auf Android installieren',
+  installLinksHint:
+    'Liest du das auf dem Handy, auf dem du installierst? Tippe auf die Schaltfläche für dein Handy.',
+  scanHint: 'Sonst scanne den QR-Code unten in der Einstellungen-App deines Handys.',
+  scanOnlyHint: 'Scanne den QR-Code unten in der Einstellungen-App deines Handys.',
+  keepQrSafe: 'Bewahre diesen QR-Code auf - du brauchst ihn evtl. für eine Neuinstallation.',
+
+  howToInstall: 'So installierst du die eSIM',
+  iphoneTitle: 'iPhone (iOS 17.4+)',
+  iphoneSteps: [
+    'Stelle sicher, dass du mit dem **WLAN** verbunden bist',
+    'Tippe oben auf **„Auf dem iPhone installieren“** (am einfachsten)',
+    'Oder öffne **Einstellungen → Mobilfunk → eSIM hinzufügen** und scanne den QR-Code',
+    'Lass die eSIM nach der Installation **ausgeschaltet**, bis du am Ziel bist',
+  ],
+  androidTitle: 'Android',
+  androidSteps: [
+    'Stelle sicher, dass du mit dem **WLAN** verbunden bist',
+    'Öffne **Einstellungen → Netzwerk & Internet → SIMs**',
+    'Tippe auf **eSIM hinzufügen** oder **Stattdessen SIM herunterladen?**',
+    'Wähle **QR-Code scannen** und scanne den Code oben',
+    'Lass die eSIM nach der Installation **ausgeschaltet**, bis du ankommst',
+  ],
+
+  activateTitle: 'So aktivierst du sie (bei Ankunft)',
+  activateSteps: [
+    'Öffne am Ziel **Einstellungen → Mobilfunk/Mobile Daten**',
+    'Wähle deine eSIM und **schalte sie ein**',
+    'Aktiviere **Datenroaming** für die eSIM',
+    'Ohne Verbindung den **Flugmodus** ein- und ausschalten oder das Handy neu starten',
+  ],
+
+  monitorTitle: 'Nach der Aktivierung: Datenverbrauch im Blick',
+  monitorBody:
+    'Sobald deine eSIM aktiv ist, siehst du deinen Datenverbrauch in Echtzeit und dein Restguthaben.',
+  monitorButton: 'Mein Verbrauchs-Dashboard',
+  monitorHint: 'Restdaten, Verbrauchsverlauf und Gültigkeit ansehen',
+
+  manualTitle: 'Manuelle Installation (falls der QR-Scan nicht klappt)',
+  manualBody: 'Gib diese Daten manuell in den eSIM-Einstellungen ein:',
+  smdpLabel: 'SM-DP+-Adresse',
+  activationCodeLabel: 'Aktivierungscode',
+  iccidLabel: 'ICCID',
+
+  textInstall: 'Scanne den angehängten QR-Code oder nutze die manuellen Daten unten.',
+  textViewOnline: 'Du kannst deinen QR-Code auch online ansehen: {url}',
+  textInstallLinks: 'Öffne auf dem Handy, auf dem du installierst, den Link für dein Handy:',
+
+  pdfQuickInstall: 'Schnellinstallation auf diesem Handy:',
+  pdfQuickInstallHint: '(Öffnet beim Antippen die eSIM-Einrichtung in den Einstellungen)',
+  pdfScanTitle: 'Zum Installieren scannen',
+  pdfScanHint: 'Scanne diesen QR-Code unter Einstellungen → eSIM hinzufügen',
+  pdfInstructionsTitle: 'Installationsanleitung',
+  pdfGenerated: 'Erstellt: {date}',
+
+  renewalSubject: 'Deine eSIM wurde aufgeladen - Bestellung {orderNumber}',
+  renewalTitle: 'Deine eSIM wurde aufgeladen',
+  renewalDefaultProduct: 'eSIM-Aufladung',
+  renewalAdded: '**{productTitle}** wurde der eSIM hinzugefügt, die du bereits installiert hast.',
+  renewalNothingToInstall:
+    '**Du musst nichts neu installieren.** Nutze einfach weiter dieselbe eSIM - der neue Tarif ist darauf bereits aktiv.',
+
+  alertDefaultProduct: 'eSIM',
+  alertUsage80Subject: 'Du hast 80 % der Daten deiner {productTitle} verbraucht',
+  alertUsage80Body:
+    'Du hast {used} von {total} deiner {productTitle} (Bestellung {orderNumber}) verbraucht. Es sind nur noch {remaining} übrig - lade jetzt auf, damit du unterwegs nicht die Verbindung verlierst.',
+  alertUsage100Subject: 'Das Datenvolumen deiner {productTitle} ist aufgebraucht',
+  alertUsage100Body:
+    'Du hast die gesamten {total} deiner {productTitle} (Bestellung {orderNumber}) verbraucht. Hol dir einen neuen Tarif, um verbunden zu bleiben.',
+  alertExpiringSubject: 'Deine {productTitle} läuft bald ab',
+  alertExpiringOnBody:
+    'Deine {productTitle} (Bestellung {orderNumber}) läuft am {date} ab. Bis dahin sind noch {remaining} Daten verfügbar. Bleibst du länger? Lade vorher auf.',
+  alertExpiringSoonBody:
+    'Deine {productTitle} (Bestellung {orderNumber}) läuft in weniger als 24 Stunden ab. Bis dahin sind noch {remaining} Daten verfügbar. Bleibst du länger? Lade vorher auf.',
+  alertTopUp: 'Daten aufladen',
+  alertUnsubscribe: 'Daten- und Ablaufhinweise abbestellen',
+  viewUsage: 'Meinen Verbrauch ansehen',
+
+  help: 'Brauchst du Hilfe? Antworte auf diese E-Mail oder kontaktiere unser Support-Team.',
+  helpWithEmail:
+    'Brauchst du Hilfe? Antworte auf diese E-Mail oder kontaktiere unser Support-Team unter {supportEmail}.',
+  rights: 'Alle Rechte vorbehalten.',
+};
@@ -0,0 +1,117 @@
+/**
+ * English - the source catalog every other locale must match.
+ * "{name}" is replaced with a value; "**text**" marks bold text in HTML.
+ */
+export const en = {
+  subject: 'Your eSIM is Ready! - Order {orderNumber}',
+  unitLabel: 'eSIM {index} of {count}',
+  title: 'Your eSIM is Ready!',
+  order: 'Order {orderNumber}',
+  defaultProductTitle: 'Your eSIM',
+  thanks: 'Thank you for your purchase! Your **{productTitle}** eSIM is ready to install.',
+  unitNotice:
+    'This email contains **{unitLabel}** from your order. Each eSIM arrives in its own email and must be installed on a separate device.',
+
+  detailsTitle: 'eSIM Details',
+  region: 'Region',
+  data: 'Data',
+  validity: 'Validity',
+
+  warningTitle: 'Read This Before Installing:',
+  warnings: [
+    '**Install BEFORE you travel** - you need WiFi to install',
+    'Each QR code can only be installed **once** - keep this email safe',
+    'After installing, keep the eSIM **turned off** until you reach your destination',
+    'Only turn it on and enable **Data Roaming** when you arrive',
+    "Don't delete the eSIM profile - it cannot be reinstalled",
+  ],
+
+  viewOnline: 'Lost this email or installing on another device?',
+  viewOnlineLink: 'View your eSIM online',
+
+  installTitle: 'Install Your eSIM',
+  installIphone: 'Install on iPhone',
+  installAndroid: 'Install on Android',
+  installLinksHint:
+    "Reading this on the phone you're installing on? Tap your phone's button above.",
+  scanHint: "Otherwise scan the QR code below from your phone's Settings app.",
+  scanOnlyHint: "Scan the QR code below from your phone's Settings app.",
+  keepQrSafe: 'Keep this QR code safe - you may need it to reinstall your eSIM.',
+
+  howToInstall: 'How to Install',
+  iphoneTitle: 'iPhone (iOS 17.4+)',
+  iphoneSteps: [
+    "Make sure you're connected to **WiFi**",
+    'Tap the **"Install on iPhone"** button above (easiest method)',
+    'Or go to **Settings → Cellular → Add eSIM** and scan the QR code',
+    'After installation, keep the eSIM **turned off** until you arrive at your destination',
+  ],
+  androidTitle: 'Android',
+  androidSteps: [
+    "Make sure you're connected to **WiFi**",
+    'Go to **Settings → Network & Internet → SIMs**',
+    'Tap **Add eSIM** or **Download a SIM instead?**',
+    'Choose **Scan QR code** and scan the code above',
+    'After installation, keep the eSIM **turned off** until you arrive',
+  ],
+
+  activateTitle: 'How to Activate (When You Arrive)',
+  activateSteps: [
+    'When you arrive at your destination, go to **Settings → Cellular/Mobile**',
+    'Select your eSIM and **turn it on**',
+    'Enable **Data Roaming** for the eSIM',
+    'If no connection appears, toggle **Airplane Mode** on/off or restart your phone',
+  ],
+
+  monitorTitle: 'After Activation: Monitor Your Data',
+  monitorBody:
+    'Once your eSIM is active, track your data usage in real-time and check remaining balance.',
+  monitorButton: 'View My Usage Dashboard',
+  monitorHint: 'Check your remaining data, usage history, and validity period',
+
+  manualTitle: "Manual Installation (if QR scan doesn't work)",
+  manualBody: 'Enter these details manually in your eSIM settings:',
+  smdpLabel: 'SM-DP+ Address',
+  activationCodeLabel: 'Activation Code',
+  iccidLabel: 'ICCID',
+
+  textInstall: 'Scan the QR code attached to this email, or use the manual details below.',
+  textViewOnline: 'You can also view your QR code online: {url}',
+  textInstallLinks: "On the phone you're installing on, open the link for your phone:",
+
+  pdfQuickInstall: 'Quick Install on this phone:',
+  pdfQuickInstallHint: '(Opens the eSIM setup in your phone settings when tapped)',
+  pdfScanTitle: 'Scan to Install',
+  pdfScanHint: 'Scan this QR code in Settings → Add eSIM',
+  pdfInstructionsTitle: 'Installation Instructions',
+  pdfGenerated: 'Generated: {date}',
+
+  renewalSubject: 'Your eSIM has been topped up - Order {orderNumber}',
+  renewalTitle: 'Your eSIM has been topped up',
+  renewalDefaultProduct: 'eSIM top-up',
+  renewalAdded: '**{productTitle}** has been added to the eSIM you already have installed.',
+  renewalNothingToInstall:
+    '**There is nothing new to install.** Keep using the same eSIM - the new plan is already active on it.',
+
+  alertDefaultProduct: 'eSIM',
+  alertUsage80Subject: "You've used 80% of your {productTitle} data",
+  alertUsage80Body:
+    "You've used {used} of {total} on your {productTitle} (order {orderNumber}). Only {remaining} is left - top up now so you don't lose connection mid-trip.",
+  alertUsage100Subject: 'Your {productTitle} data has run out',
+  alertUsage100Body:
+    "You've used all {total} on your {productTitle} (order {orderNumber}). Get a new plan to stay connected.",
+  alertExpiringSubject: 'Your {productTitle} expires soon',
+  alertExpiringOnBody:
+    'Your {productTitle} (order {orderNumber}) expires on {date}. {remaining} of data is still available until then. Staying longer? Top up before it ends.',
+  alertExpiringSoonBody:
+    'Your {productTitle} (order {orderNumber}) expires within 24 hours. {remaining} of data is still available until then. Staying longer? Top up before it ends.',
+  alertTopUp: 'Top Up My Data',
+  alertUnsubscribe: 'Unsubscribe from data and expiry alerts',
+  viewUsage: 'View my usage',
+
+  help: 'Need help? Reply to this email or contact our support team.',
+  helpWithEmail: 'Need help? Reply to this email or contact our support team at {supportEmail}.',
+  rights: 'All rights reserved.',
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,114 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  subject: '¡Tu eSIM está lista! - Pedido {orderNumber}',
+  unitLabel: 'eSIM {index} de {count}',
+  title: '¡Tu eSIM está lista!',
+  order: 'Pedido {orderNumber}',
+  defaultProductTitle: 'Tu eSIM',
+  thanks: '¡Gracias por tu compra! Tu eSIM **{productTitle}** está lista para instalar.',
+  unitNotice:
+    'Este correo contiene la **{unitLabel}** de tu pedido. Cada eSIM llega en su propio correo y debe instalarse en un dispositivo distinto.',
+
+  detailsTitle: 'Detalles de la eSIM',
+  region: 'Región',
+  data: 'Datos',
+  validity: 'Validez',
+
+  warningTitle: 'Lee esto antes de instalar:',
+  warnings: [
+    '**Instálala ANTES de viajar** - necesitas WiFi para instalarla',
+    'Cada código QR solo se puede instalar **una vez** - guarda bien este correo',
+    'Después de instalarla, mantén la eSIM **desactivada** hasta llegar a tu destino',
+    'Actívala y habilita la **itinerancia de datos** solo cuando llegues',
+    'No elimines el perfil de la eSIM - no se puede volver a instalar',
+  ],
+
+  viewOnline: '¿Perdiste este correo o vas a instalarla en otro dispositivo?',
+  viewOnlineLink: 'Ver tu eSIM en línea',
+
+  installTitle: 'Instala tu eSIM',
+  installIphone: 'Instalar en iPhone',
+  installAndroid: 'Instalar en Android',
+  installLinksHint:
+    '¿Estás leyendo esto en el teléfono donde vas a instalarla? Toca el botón de tu teléfono.',
+  scanHint: 'Si no, escanea el código QR de abajo desde la app Ajustes de tu teléfono.',
+  scanOnlyHint: 'Escanea el código QR de abajo desde la app Ajustes de tu teléfono.',
+  keepQrSafe: 'Guarda este código QR - puede que lo necesites para reinstalar tu eSIM.',
+
+  howToInstall: 'Cómo instalarla',
+  iphoneTitle: 'iPhone (iOS 17.4+)',
+  iphoneSteps: [
+    'Asegúrate de estar conectado a una red **WiFi**',
+    'Toca el botón **"Instalar en iPhone"** de arriba (el método más fácil)',
+    'O ve a **Ajustes → Datos móviles → Añadir eSIM** y escanea el código QR',
+    'Después de instalarla, mantén la eSIM **desactivada** hasta llegar a tu destino',
+  ],
+  androidTitle: 'Android',
+  androidSteps: [
+    'Asegúrate de estar conectado a una red **WiFi**',
+    'Ve a **Ajustes → Redes e Internet → SIMs**',
+    'Toca **Añadir eSIM** o **¿Descargar una SIM?**',
+    'Elige **Escanear código QR** y escanea el código de arriba',
+    'Después de instalarla, mantén la eSIM **desactivada** hasta que llegues',
+  ],
+
+  activateTitle: 'Cómo activarla (al llegar)',
+  activateSteps: [
+    'Al llegar a tu destino, ve a **Ajustes → Datos móviles**',
+    'Selecciona tu eSIM y **actívala**',
+    'Habilita la **itinerancia de datos** para la eSIM',
+    'Si no hay conexión, activa y desactiva el **modo avión** o reinicia el teléfono',
+  ],
+
+  monitorTitle: 'Después de activarla: controla tus datos',
+  monitorBody:
+    'Cuando tu eSIM esté activa, consulta tu consumo de datos en tiempo real y el saldo restante.',
+  monitorButton: 'Ver mi panel de consumo',
+  monitorHint: 'Consulta los datos restantes, el historial de consumo y la validez',
+
+  manualTitle: 'Instalación manual (si el escaneo del QR no funciona)',
+  manualBody: 'Introduce estos datos manualmente en los ajustes de eSIM:',
+  smdpLabel: 'Dirección SM-DP+',
+  activationCodeLabel: 'Código de activación',
+  iccidLabel: 'ICCID',
+
+  textInstall: 'Escanea el código QR adjunto a este correo o usa los datos manuales de abajo.',
+  textViewOnline: 'También puedes ver tu código QR en línea: {url}',
+  textInstallLinks: 'En el teléfono donde vas a instalarla, abre el enlace de tu teléfono:',
+
+  pdfQuickInstall: 'Instalación rápida en este teléfono:',
+  pdfQuickInstallHint: '(Abre la configuración de eSIM de tu teléfono al tocarlo)',
+  pdfScanTitle: 'Escanea para instalar',
+  pdfScanHint: 'Escanea este código QR en Ajustes → Añadir eSIM',
+  pdfInstructionsTitle: 'Instrucciones de instalación',
+  pdfGenerated: 'Generado: {date}',
+
+  renewalSubject: 'Tu eSIM ha sido recargada - Pedido {orderNumber}',
+  renewalTitle: 'Tu eSIM ha sido recargada',
+  renewalDefaultProduct: 'Recarga de eSIM',
+  renewalAdded: '**{productTitle}** se ha añadido a la eSIM que ya tienes instalada.',
+  renewalNothingToInstall:
+    '**No hay nada nuevo que instalar.** Sigue usando la misma eSIM: el nuevo plan ya está activo en ella.',
+
+  alertDefaultProduct: 'eSIM',
+  alertUsage80Subject: 'Has usado el 80 % de los datos de tu {productTitle}',
+  alertUsage80Body:
+    'Has usado {used} de {total} en tu {productTitle} (pedido {orderNumber}). Solo te quedan {remaining}: recarga ahora para no quedarte sin conexión en pleno viaje.',
+  alertUsage100Subject: 'Se han agotado los datos de tu {productTitle}',
+  alertUsage100Body:
+    'Has usado los {total} de tu {productTitle} (pedido {orderNumber}). Consigue un nuevo plan para seguir conectado.',
+  alertExpiringSubject: 'Tu {productTitle} caduca pronto',
+  alertExpiringOnBody:
+    'Tu {productTitle} (pedido {orderNumber}) caduca el {date}. Hasta entonces aún tienes {remaining} de datos. ¿Te quedas más tiempo? Recarga antes de que termine.',
+  alertExpiringSoonBody:
+    'Tu {productTitle} (pedido {orderNumber}) caduca en menos de 24 horas. Hasta entonces aún tienes {remaining} de datos. ¿Te quedas más tiempo? Recarga antes de que termine.',
+  alertTopUp: 'Recargar mis datos',
+  alertUnsubscribe: 'Darse de baja de los avisos de datos y caducidad',
+  viewUsage: 'Ver mi consumo',
+
+  help: '¿Necesitas ayuda? Responde a este correo o contacta con nuestro equipo de soporte.',
+  helpWithEmail:
+    '¿Necesitas ayuda? Responde a este correo o contacta con nuestro equipo de soporte en {supportEmail}.',
+  rights: 'Todos los derechos reservados.',
+};
@@ -0,0 +1,115 @@
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  subject: 'Votre eSIM est prête ! - Commande {orderNumber}',
+  unitLabel: 'eSIM {index} sur {count}',
+  title: 'Votre eSIM est prête !',
+  order: 'Commande {orderNumber}',
+  defaultProductTitle: 'Votre eSIM',
+  thanks: 'Merci pour votre achat ! Votre eSIM **{productTitle}** est prête à être installée.',
+  unitNotice:
+    "Cet e-mail contient l'**{unitLabel}** de votre commande. Chaque eSIM est envoyée dans un e-mail distinct et doit être installée sur un appareil différent.",
+
+  detailsTitle: "Détails de l'eSIM",
+  region: 'Région',
+  data: 'Données',
+  validity: 'Validité',
+
+  warningTitle: "À lire avant l'installation :",
+  warnings: [
+    "**Installez-la AVANT de partir** - l'installation nécessite le WiFi",
+    'Chaque code QR ne peut être installé **qu’une seule fois** - conservez cet e-mail',
+    "Après l'installation, laissez l'eSIM **désactivée** jusqu'à votre arrivée à destination",
+    "Activez-la et activez l'**itinérance des données** seulement à votre arrivée",
+    'Ne supprimez pas le profil eSIM - il ne peut pas être réinstallé',
+  ],
+
+  viewOnline: 'E-mail perdu ou installation sur un autre appareil ?',
+  viewOnlineLink: 'Voir votre eSIM en ligne',
+
+  installTitle: 'Installez votre eSIM',
+  installIphone: 'Installer sur iPhone',
+  installAndroid: 'Installer sur Android',
+  installLinksHint:
+    'Vous lisez ceci sur le téléphone à équiper ? Touchez le bouton correspondant à votre téléphone.',
+  scanHint: "Sinon, scannez le code QR ci-dessous depuis l'app Réglages de votre téléphone.",
+  scanOnlyHint: "Scannez le code QR ci-dessous depuis l'app Réglages de votre téléphone.",
+  keepQrSafe: 'Conservez ce code QR - il peut servir à réinstaller votre eSIM.',
+
+  howToInstall: "Comment l'installer",
+  iphoneTitle: 'iPhone (iOS 17.4+)',
+  iphoneSteps: [
+    'Vérifiez que vous êtes connecté au **WiFi**',
+    'Touchez le bouton **« Installer sur iPhone »** ci-dessus (le plus simple)',
+    'Ou allez dans **Réglages → Données cellulaires → Ajouter une eSIM** et scannez le code QR',
+    "Après l'installation, laissez l'eSIM **désactivée** jusqu'à votre arrivée à destination",
+  ],
+  androidTitle: 'Android',
+  androidSteps: [
+    'Vérifiez que vous êtes connecté au **WiFi**',
+    'Allez dans **Paramètres → Réseau et Internet → SIM**',
+    'Touchez **Ajouter une eSIM** ou **Télécharger une SIM ?**',
+    'Choisissez **Scanner le code QR** et scannez le code ci-dessus',
+    "Après l'installation, laissez l'eSIM **désactivée** jusqu'à votre arrivée",
+  ],
+
+  activateTitle: "Comment l'activer (à l'arrivée)",
+  activateSteps: [
+    'À votre arrivée, allez dans **Réglages → Données cellulaires/mobiles**',
+    'Sélectionnez votre eSIM et **activez-la**',
+    "Activez l'**itinérance des données** pour l'eSIM",
+    'Sans connexion, activez puis désactivez le **mode Avion** ou redémarrez votre téléphone',
+  ],
+
+  monitorTitle: 'Après activation : suivez vos données',
+  monitorBody:
+    'Une fois votre eSIM active, suivez votre consommation de données en temps réel et votre solde restant.',
+  monitorButton: 'Voir mon tableau de consommation',
+  monitorHint: "Consultez les données restantes, l'historique de consommation et la validité",
+
+  manualTitle: 'Installation manuelle (si le scan du QR ne fonctionne pas)',
+  manualBody: 'Saisissez ces informations manuellement dans les réglages eSIM :',
+  smdpLabel: 'Adresse SM-DP+',
+  activationCodeLabel: "Code d'activation",
+  iccidLabel: 'ICCID',
+
+  textInstall:
+    'Scannez le code QR joint à cet e-mail ou utilisez les informations manuelles ci-dessous.',
+  textViewOnline: 'Vous pouvez aussi voir votre code QR en ligne : {url}',
+  textInstallLinks: 'Sur le téléphone à équiper, ouvrez le lien correspondant :',
+
+  pdfQuickInstall: 'Installation rapide sur ce téléphone :',
+  pdfQuickInstallHint: '(Ouvre la configuration eSIM de votre téléphone)',
+  pdfScanTitle: 'Scannez pour installer',
+  pdfScanHint: 'Scannez ce code QR dans Réglages → Ajouter une eSIM',
+  pdfInstructionsTitle: "Instructions d'installation",
+  pdfGenerated: 'Généré le : {date}',
+
+  renewalSubject: 'Votre eSIM a été rechargée - Commande {orderNumber}',
+  renewalTitle: 'Votre eSIM a été rechargée',
+  renewalDefaultProduct: 'Recharge eSIM',
+  renewalAdded: "**{productTitle}** a été ajouté à l'eSIM déjà installée sur votre appareil.",
+  renewalNothingToInstall:
+    "**Il n'y a rien de nouveau à installer.** Continuez à utiliser la même eSIM : le nouveau forfait y est déjà actif.",
+
+  alertDefaultProduct: 'eSIM',
+  alertUsage80Subject: 'Vous avez utilisé 80 % des données de votre {productTitle}',
+  alertUsage80Body:
+    'Vous avez utilisé {used} sur {total} de votre {productTitle} (commande {orderNumber}). Il ne reste que {remaining} : rechargez maintenant pour ne pas perdre la connexion en plein voyage.',
+  alertUsage100Subject: 'Les données de votre {productTitle} sont épuisées',
+  alertUsage100Body:
+    'Vous avez utilisé la totalité des {total} de votre {productTitle} (commande {orderNumber}). Prenez un nouveau forfait pour rester connecté.',
+  alertExpiringSubject: 'Votre {productTitle} expire bientôt',
+  alertExpiringOnBody:
+    "Votre {productTitle} (commande {orderNumber}) expire le {date}. Il vous reste {remaining} de données d'ici là. Vous prolongez votre séjour ? Rechargez avant la fin.",
+  alertExpiringSoonBody:
+    "Votre {productTitle} (commande {orderNumber}) expire dans moins de 24 heures. Il vous reste {remaining} de données d'ici là. Vous prolongez votre séjour ? Rechargez avant la fin.",
+  alertTopUp: 'Recharger mes données',
+  alertUnsubscribe: "Se désabonner des alertes de données et d'expiration",
+  viewUsage: 'Voir ma consommation',
+
+  help: "Besoin d'aide ? Répondez à cet e-mail ou contactez notre équipe d'assistance.",
+  helpWithEmail:
+    "Besoin d'aide ? Répondez à cet e-mail ou contactez notre équipe d'assistance à {supportEmail}.",
+  rights: 'Tous droits réservés.',
+};
@@ -0,0 +1,46 @@
+import type PgBoss from 'pg-boss';
+import { getJobQueue, RETRY_POLICIES } from './jobQueue';
+import { isRetryableError } from './errors';
+
+/**
+ * Queue for jobs that failed for good - a permanent error or their retries used up.
+ * Its worker marks the affected step failed_terminal and notifies the operators.
+ */
+export const DEAD_LETTER_QUEUE = 'dead-letter';
+
+export interface DeadLetterJobData {
+  name: string;
+  jobId: string;
+  data: Record<string, unknown>;
+  error: string;
+  permanent: boolean;
+  retryCount: number;
+}
+
+/**
+ * Call from a worker's catch: re-throws while pg-boss should still retry the job, otherwise
+ * moves it to the dead-letter queue and returns, so the job completes instead of failing again.
+ */
+export async function retryOrDeadLetter(job: PgBoss.JobWithMetadata, err: unknown) {
+  const permanent = !isRetryableError(err);
+  if (!permanent && job.retrycount < job.retrylimit) {
+    throw err;
+  }
+
+  const error = err instanceof Error ? err.message : String(err);
+  const deadLetter: DeadLetterJobData = {
+    name: job.name,
+    jobId: job.id,
+    data: (job.data as Record<string, unknown>) || {},
+    error,
+    permanent,
+    retryCount: job.retrycount,
+  };
+  await getJobQueue().send(DEAD_LETTER_QUEUE, deadLetter, RETRY_POLICIES['dead-letter']);
+
+  console.error(
+    `[DeadLetter] ${job.name} job ${job.id} dead-lettered ` +
+      `(${permanent ? 'permanent error' : `gave up after ${job.retrycount} retries`}): ${error}`,
+  );
+  return { deadLettered: true, permanent, error };
+}
@@ -0,0 +1,38 @@
+import { isAxiosError } from 'axios';
+import { ZodError } from 'zod';
+import { ProviderConfigError } from '../vendor/esimProvider';
+
+/**
+ * A job failure that retrying cannot fix, e.g. a missing or inactive SKU mapping.
+ * Skips the remaining pg-boss retries and goes straight to the dead-letter queue.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/**
+ * Retryable: network errors and timeouts, HTTP 5xx/429, and anything unrecognized such as a
+ * FiRoam error after a token expiry (the job's retryLimit still bounds it).
+ * Permanent: PermanentJobError, an unusable SKU mapping (ProviderConfigError), payload validation
+ * (zod) and any other HTTP 4xx.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (
+    err instanceof PermanentJobError ||
+    err instanceof ProviderConfigError ||
+    err instanceof ZodError
+  ) {
+    return false;
+  }
+
+  if (isAxiosError(err)) {
+    const status = err.response?.status;
+    if (!status) return true; // No response: connection error or timeout
+    return status >= 500 || status === 429;
+  }
+
+  return true;
+}
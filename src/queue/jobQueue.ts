@@ -1,7 +1,50 @@
 import PgBoss from 'pg-boss';
+import type { Prisma } from '@prisma/client';
 
 let jobQueue: PgBoss | null = null;
 
+const DEFAULT_RETRY_POLICIES = {
+  'process-webhook': { retryLimit: 5, retryDelay: 30, retryBackoff: true, expireInMinutes: 5 },
+  'provision-esim': { retryLimit: 4, retryDelay: 30, retryBackoff: true, expireInMinutes: 10 },
+  'send-delivery-email': { retryLimit: 5, retryDelay: 60, retryBackoff: true, expireInMinutes: 5 },
+  'create-fulfillment': { retryLimit: 8, retryDelay: 120, retryBackoff: true, expireInMinutes: 5 },
+  'cancel-esim': { retryLimit: 5, retryDelay: 60, retryBackoff: true, expireInMinutes: 5 },
+  'resend-email': { retryLimit: 3, retryDelay: 60, retryBackoff: true, expireInMinutes: 5 },
+  'dead-letter': { retryLimit: 5, retryDelay: 60, retryBackoff: true, expireInMinutes: 5 },
+} satisfies Record<string, PgBoss.SendOptions>;
+
+export type JobName = keyof typeof DEFAULT_RETRY_POLICIES;
+
+/**
+ * Retry/backoff/expiry per job name, spread into the send options (pg-boss 8 has no per-queue config).
+ * JOB_RETRY_POLICIES overrides fields per job, e.g. {"provision-esim":{"retryLimit":2}}.
+ * provision-esim retries are safe: the job claims its delivery and adopts any vendor order
+ * an earlier attempt placed. Errors that retrying can't fix skip the retries (see ./errors).
+ */
+export const RETRY_POLICIES: Record<JobName, PgBoss.SendOptions> = loadRetryPolicies();
+
+function loadRetryPolicies(): Record<JobName, PgBoss.SendOptions> {
+  const policies: Record<JobName, PgBoss.SendOptions> = { ...DEFAULT_RETRY_POLICIES };
+  if (!process.env.JOB_RETRY_POLICIES) return policies;
+
+  try {
+    const overrides = JSON.parse(process.env.JOB_RETRY_POLICIES) as Record<
+      string,
+      PgBoss.SendOptions
+    >;
+    for (const [name, override] of Object.entries(overrides)) {
+      if (!(name in policies)) {
+        console.warn(`[JobQueue] Ignoring retry policy for unknown job ${name}`);
+        continue;
+      }
+      policies[name as JobName] = { ...policies[name as JobName], ...override };
+    }
+  } catch (err) {
+    console.error('[JobQueue] Invalid JOB_RETRY_POLICIES, using defaults:', err);
+  }
+  return policies;
+}
+
 /**
  * Initialize and get pg-boss job queue instance
  */
@@ -41,3 +84,24 @@ export async function stopJobQueue(): Promise<void> {
     console.log('[JobQueue] pg-boss stopped');
   }
 }
+
+/**
+ * Adapt a Prisma interactive transaction to pg-boss's `db` send option, so a job is
+ * inserted in the same transaction as the rows it refers to and both commit or roll back together.
+ */
+export function transactionDb(tx: Prisma.TransactionClient): PgBoss.Db {
+  return {
+    async executeSql(text: string, values: unknown[]) {
+      // pg-boss passes job data as a plain object and unset options as undefined
+      const params = values.map((value) => {
+        if (value === undefined) return null;
+        if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+          return JSON.stringify(value);
+        }
+        return value;
+      });
+      const rows = await tx.$queryRawUnsafe<unknown[]>(text, ...params);
+      return { rows, rowCount: rows.length };
+    },
+  };
+}
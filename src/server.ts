@@ -3,7 +3,12 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import webhookRoutes from './api/webhook';
 import usageRoutes from './api/usage';
+import authRoutes from './api/auth';
+import adminRoutes from './api/admin';
+import deliveryRoutes from './api/delivery';
+import notificationRoutes from './api/notifications';
 import { getShopifyClient } from './shopify/client';
+import { getShopStorefrontOrigins } from './services/shops';
 
 export default async function buildServer() {
   const app = Fastify({
@@ -12,7 +17,7 @@ export default async function buildServer() {
     bodyLimit: 1048576, // 1MB
   });
 
-  // Configure CORS for Shopify storefront
+  // Configure CORS for the env-configured storefront plus every installed shop
   await app.register(cors, {
     origin: (origin, callback) => {
       const shopifyDomain = process.env.SHOPIFY_SHOP_DOMAIN; // fluxyfi-com.myshopify.com
@@ -37,9 +42,18 @@ export default async function buildServer() {
 
       if (allowedOrigins.some((allowed) => origin.startsWith(allowed))) {
         callback(null, true);
-      } else {
-        callback(new Error('Not allowed by CORS'), false);
+        return;
       }
+
+      getShopStorefrontOrigins()
+        .then((shopOrigins) => {
+          if (shopOrigins.includes(origin)) {
+            callback(null, true);
+          } else {
+            callback(new Error('Not allowed by CORS'), false);
+          }
+        })
+        .catch((err: Error) => callback(err, false));
     },
     credentials: true,
     methods: ['GET', 'POST', 'OPTIONS'],
@@ -84,6 +98,10 @@ export default async function buildServer() {
 
   app.register(webhookRoutes, { prefix: '/webhook' });
   app.register(usageRoutes);
+  app.register(authRoutes, { prefix: '/auth' });
+  app.register(adminRoutes, { prefix: '/admin' });
+  app.register(deliveryRoutes, { prefix: '/delivery' });
+  app.register(notificationRoutes, { prefix: '/notifications' });
 
   return app;
 }
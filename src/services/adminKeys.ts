@@ -0,0 +1,79 @@
+/**
+ * Admin API Key Service
+ * Issues and verifies hashed, scoped keys for the admin API
+ */
+import crypto from 'crypto';
+import type { AdminApiKey } from '@prisma/client';
+import prisma from '../db/prisma';
+
+export const ADMIN_SCOPES = [
+  'deliveries:read',
+  'deliveries:write',
+  'payload:reveal',
+  'mappings:write',
+] as const;
+
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
+const KEY_PREFIX = 'flx_';
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isAdminScope(scope: string): scope is AdminScope {
+  return (ADMIN_SCOPES as readonly string[]).includes(scope);
+}
+
+/**
+ * Create a key. The plaintext key is only returned here - store it somewhere safe.
+ */
+export async function createAdminApiKey(
+  name: string,
+  scopes: AdminScope[],
+  expiresAt?: Date,
+): Promise<{ key: string; apiKey: AdminApiKey }> {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await prisma.adminApiKey.create({
+    data: {
+      name,
+      prefix: key.slice(0, PREFIX_LENGTH),
+      keyHash: hashKey(key),
+      scopes,
+      expiresAt,
+    },
+  });
+
+  return { key, apiKey };
+}
+
+/**
+ * Resolve a presented key to an active AdminApiKey, or null
+ */
+export async function authenticateAdminApiKey(key: string): Promise<AdminApiKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const apiKey = await prisma.adminApiKey.findUnique({ where: { keyHash: hashKey(key) } });
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt < new Date()) return null;
+
+  // Best effort - a failed timestamp update shouldn't fail the request
+  prisma.adminApiKey
+    .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+    .catch((err) => console.error('[Admin] Failed to update key lastUsedAt:', err));
+
+  return apiKey;
+}
+
+/**
+ * Revoke a key by its prefix
+ */
+export async function revokeAdminApiKey(prefix: string): Promise<boolean> {
+  const { count } = await prisma.adminApiKey.updateMany({
+    where: { prefix, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count > 0;
+}
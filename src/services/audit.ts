@@ -0,0 +1,27 @@
+/**
+ * Audit Service
+ * Records who did what through the admin API
+ */
+import type { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+
+export interface AuditEntry {
+  actor: string;
+  action: string;
+  targetId?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  await prisma.auditLog.create({
+    data: {
+      actor: entry.actor,
+      action: entry.action,
+      targetId: entry.targetId ?? null,
+      metadata: entry.metadata,
+    },
+  });
+}
@@ -0,0 +1,291 @@
+/**
+ * Shopify GDPR Compliance Handlers
+ * customers/data_request, customers/redact and shop/redact
+ */
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { encrypt, decrypt } from '../utils/crypto';
+import { markShopUninstalled } from './shops';
+
+interface ComplianceCustomer {
+  id: number;
+  email?: string | null;
+  phone?: string | null;
+}
+
+interface CustomersDataRequestWebhook {
+  shop_domain: string;
+  customer: ComplianceCustomer;
+  orders_requested?: number[];
+  data_request?: { id: number };
+}
+
+interface CustomersRedactWebhook {
+  shop_domain: string;
+  customer: ComplianceCustomer;
+  orders_to_redact?: number[];
+}
+
+export const REDACTED_PAYLOAD = '{"redacted":true}';
+
+// Redact requests carry the data they ask us to wipe. Their own stored body is wiped by the
+// webhook job once the event is processed, so a retry can still read it.
+export const REDACT_ON_PROCESSED_TOPICS: ReadonlySet<string> = new Set([
+  'customers/redact',
+  'shop/redact',
+]);
+
+/**
+ * Deliveries belonging to a customer: matched by customer id, email or the orders Shopify lists
+ */
+function customerDeliveriesWhere(
+  shopDomain: string,
+  customer: ComplianceCustomer,
+  orderIds: string[],
+): Prisma.EsimDeliveryWhereInput {
+  const match: Prisma.EsimDeliveryWhereInput[] = [{ customerId: String(customer.id) }];
+  if (customer.email) {
+    match.push({ customerEmail: { equals: customer.email, mode: 'insensitive' } });
+    match.push({ orderEmail: { equals: customer.email, mode: 'insensitive' } });
+  }
+  if (orderIds.length > 0) {
+    match.push({ orderId: { in: orderIds } });
+  }
+
+  return { shop: shopDomain, OR: match };
+}
+
+/**
+ * Wipe customer data from deliveries while keeping the rows for accounting.
+ * Returns the ids of the redacted deliveries.
+ */
+async function redactDeliveries(where: Prisma.EsimDeliveryWhereInput): Promise<string[]> {
+  const deliveries = await prisma.esimDelivery.findMany({ where, select: { id: true } });
+  const deliveryIds = deliveries.map((d) => d.id);
+  if (deliveryIds.length === 0) return [];
+
+  await prisma.$transaction([
+    prisma.esimDelivery.updateMany({
+      where: { id: { in: deliveryIds } },
+      data: {
+        customerEmail: null,
+        customerId: null,
+        orderEmail: null,
+        payloadEncrypted: null,
+        iccidHash: null,
+        accessTokenHash: null,
+        accessExpiresAt: null,
+        redactedAt: new Date(),
+      },
+    }),
+    prisma.deliveryAttempt.updateMany({
+      where: { deliveryId: { in: deliveryIds } },
+      data: { result: null },
+    }),
+    prisma.esimOrder.updateMany({
+      where: { deliveryId: { in: deliveryIds } },
+      data: { payloadJson: Prisma.DbNull, payloadEncrypted: null },
+    }),
+    prisma.usageSnapshot.deleteMany({ where: { deliveryId: { in: deliveryIds } } }),
+    prisma.usageAlert.deleteMany({ where: { deliveryId: { in: deliveryIds } } }),
+  ]);
+
+  return deliveryIds;
+}
+
+/**
+ * pg-boss rows carry the customer's email in their data (provision-esim and resend-email jobs,
+ * and the dead-letter copies of them). Finished and archived jobs are deleted; jobs still queued
+ * or running only lose their email fields, since they may be needed to finish the order.
+ */
+async function redactQueuedJobs(deliveryIds: string[], email?: string | null): Promise<void> {
+  if (deliveryIds.length === 0 && !email) return;
+
+  // ILIKE, with the email's own wildcard characters escaped
+  const emailPattern = email ? `%${email.replace(/[\\%_]/g, '\\$&')}%` : null;
+  const matches = Prisma.sql`(
+    data->>'deliveryId' = ANY(${deliveryIds}::text[])
+    OR data->'data'->>'deliveryId' = ANY(${deliveryIds}::text[])
+    OR (${emailPattern}::text IS NOT NULL AND data::text ILIKE ${emailPattern})
+  )`;
+
+  await prisma.$transaction([
+    prisma.$executeRaw`DELETE FROM pgboss.archive WHERE ${matches}`,
+    prisma.$executeRaw`
+      DELETE FROM pgboss.job
+      WHERE state IN ('completed', 'expired', 'cancelled', 'failed') AND ${matches}
+    `,
+    prisma.$executeRaw`
+      UPDATE pgboss.job
+      SET data = CASE
+        WHEN data ? 'data' THEN (data - 'customerEmail' - 'to')
+          || jsonb_build_object('data', (data->'data') - 'customerEmail' - 'to')
+        ELSE data - 'customerEmail' - 'to'
+      END
+      WHERE state IN ('created', 'retry', 'active') AND ${matches}
+    `,
+  ]);
+}
+
+/**
+ * customers/data_request - export the customer's deliveries for the merchant
+ */
+export async function handleCustomersDataRequest(payload: unknown, shopDomain: string) {
+  const webhook = payload as CustomersDataRequestWebhook;
+  const orderIds = (webhook.orders_requested || []).map(String);
+
+  console.log(
+    `[Webhook] Processing customers/data_request for customer ${webhook.customer.id} on ${shopDomain}`,
+  );
+
+  const deliveries = await prisma.esimDelivery.findMany({
+    where: customerDeliveriesWhere(shopDomain, webhook.customer, orderIds),
+    include: {
+      attempts: { orderBy: { createdAt: 'asc' } },
+      usageAlerts: { orderBy: { sentAt: 'asc' } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const preference = webhook.customer.email
+    ? await prisma.customerPreference.findUnique({
+        where: {
+          shop_email: { shop: shopDomain, email: webhook.customer.email.toLowerCase() },
+        },
+      })
+    : null;
+
+  const exportData = {
+    shop: shopDomain,
+    customerId: webhook.customer.id,
+    generatedAt: new Date().toISOString(),
+    usageAlertsOptOutAt: preference?.usageAlertsOptOutAt?.toISOString() || null,
+    deliveries: deliveries.map((delivery) => {
+      let iccid: string | null = null;
+      if (delivery.payloadEncrypted) {
+        try {
+          iccid =
+            (JSON.parse(decrypt(delivery.payloadEncrypted)) as { iccid?: string }).iccid || null;
+        } catch {
+          // Leave ICCID out if the payload can't be read
+        }
+      }
+
+      // Activation codes are deliberately excluded - the export is handled by the merchant
+      return {
+        orderId: delivery.orderId,
+        orderName: delivery.orderName,
+        lineItemId: delivery.lineItemId,
+        sku: delivery.sku,
+        email: delivery.customerEmail,
+        status: delivery.status,
+        iccid,
+        createdAt: delivery.createdAt.toISOString(),
+        cancelledAt: delivery.cancelledAt?.toISOString() || null,
+        deliveryAttempts: delivery.attempts.map((attempt) => ({
+          channel: attempt.channel,
+          createdAt: attempt.createdAt.toISOString(),
+        })),
+        usageAlerts: delivery.usageAlerts.map((alert) => ({
+          kind: alert.kind,
+          sentAt: alert.sentAt.toISOString(),
+        })),
+      };
+    }),
+  };
+
+  const request = await prisma.complianceRequest.create({
+    data: {
+      topic: 'customers/data_request',
+      shop: shopDomain,
+      shopifyRequestId: webhook.data_request?.id?.toString() || null,
+      customerId: webhook.customer.id.toString(),
+      orderIds,
+      deliveryCount: deliveries.length,
+      exportEncrypted: encrypt(JSON.stringify(exportData)),
+      completedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `[Webhook] Data request ${request.id}: exported ${deliveries.length} delivery(ies) for customer ${webhook.customer.id}`,
+  );
+}
+
+/**
+ * customers/redact - wipe a customer's email, eSIM payloads and delivery results
+ */
+export async function handleCustomersRedact(payload: unknown, shopDomain: string, eventId: string) {
+  const webhook = payload as CustomersRedactWebhook;
+  const orderIds = (webhook.orders_to_redact || []).map(String);
+
+  console.log(
+    `[Webhook] Processing customers/redact for customer ${webhook.customer.id} on ${shopDomain}`,
+  );
+
+  const deliveryIds = await redactDeliveries(
+    customerDeliveriesWhere(shopDomain, webhook.customer, orderIds),
+  );
+  const deliveryCount = deliveryIds.length;
+  await redactQueuedJobs(deliveryIds, webhook.customer.email);
+
+  // Stored webhook bodies carry the same email (this request's own body is wiped once processed)
+  if (webhook.customer.email) {
+    await prisma.webhookEvent.updateMany({
+      where: {
+        id: { not: eventId },
+        shop: shopDomain,
+        payload: { contains: webhook.customer.email, mode: 'insensitive' },
+      },
+      data: { payload: REDACTED_PAYLOAD, redactedAt: new Date() },
+    });
+    await prisma.customerPreference.deleteMany({
+      where: { shop: shopDomain, email: webhook.customer.email.toLowerCase() },
+    });
+  }
+
+  await prisma.complianceRequest.create({
+    data: {
+      topic: 'customers/redact',
+      shop: shopDomain,
+      customerId: webhook.customer.id.toString(),
+      orderIds,
+      deliveryCount,
+      completedAt: new Date(),
+    },
+  });
+
+  console.log(
+    `[Webhook] Redacted ${deliveryCount} delivery(ies) for customer ${webhook.customer.id}`,
+  );
+}
+
+/**
+ * shop/redact - wipe all customer data and credentials for a shop (48h after uninstall)
+ */
+export async function handleShopRedact(_payload: unknown, shopDomain: string, eventId: string) {
+  console.log(`[Webhook] Processing shop/redact for ${shopDomain}`);
+
+  const deliveryIds = await redactDeliveries({ shop: shopDomain });
+  const deliveryCount = deliveryIds.length;
+  await redactQueuedJobs(deliveryIds);
+
+  await prisma.webhookEvent.updateMany({
+    where: { id: { not: eventId }, shop: shopDomain },
+    data: { payload: REDACTED_PAYLOAD, redactedAt: new Date() },
+  });
+
+  await prisma.customerPreference.deleteMany({ where: { shop: shopDomain } });
+
+  await markShopUninstalled(shopDomain);
+  await prisma.shop.updateMany({
+    where: { domain: shopDomain },
+    data: { webhookSecretEncrypted: null, emailFrom: null, supportEmail: null },
+  });
+
+  await prisma.complianceRequest.create({
+    data: { topic: 'shop/redact', shop: shopDomain, deliveryCount, completedAt: new Date() },
+  });
+
+  console.log(`[Webhook] Redacted ${deliveryCount} delivery(ies) for shop ${shopDomain}`);
+}
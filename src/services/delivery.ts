@@ -0,0 +1,470 @@
+/**
+ * Delivery Service
+ * Re-sends delivered eSIMs, retries failed provisioning and recovers stuck deliveries
+ */
+import { Prisma, type EsimDelivery } from '@prisma/client';
+import prisma from '../db/prisma';
+import { getJobQueue, transactionDb, RETRY_POLICIES } from '../queue/jobQueue';
+import { DEAD_LETTER_QUEUE, type DeadLetterJobData } from '../queue/deadLetter';
+import { decrypt } from '../utils/crypto';
+import {
+  sendDeliveryEmail,
+  recordDeliveryAttempt,
+  type DeliveryContent,
+  type EsimPayload,
+} from './email';
+import { getShopBranding } from './shops';
+import { resolveLocale } from '../i18n';
+import { activateDeliveryPageLink, createDeliveryPageLink } from './deliveryAccess';
+import { createUsageToken } from './usageLinks';
+import { findExistingVendorOrder } from './vendorOrders';
+import { getProviderForDelivery } from '../vendor/providers';
+
+// Resends are capped so an order email change can't be used to harvest QR codes
+const MAX_RESENDS_PER_DAY = Number(process.env.MAX_RESENDS_PER_DAY || 3);
+const RESEND_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rebuild what the customer sees for a delivered eSIM from the encrypted payload
+ */
+export async function loadDeliveryContent(delivery: EsimDelivery): Promise<DeliveryContent> {
+  if (!delivery.payloadEncrypted) {
+    throw new Error(`EsimDelivery ${delivery.id} has no payload`);
+  }
+
+  const canonical = JSON.parse(decrypt(delivery.payloadEncrypted)) as Partial<EsimPayload>;
+  const esimPayload: EsimPayload = {
+    lpa: canonical.lpa || '',
+    activationCode: canonical.activationCode || '',
+    iccid: canonical.iccid || '',
+  };
+
+  const mapping = delivery.sku
+    ? await prisma.providerSkuMapping.findUnique({ where: { shopifySku: delivery.sku } })
+    : null;
+
+  const branding = await getShopBranding(delivery.shop);
+
+  return {
+    orderNumber: delivery.orderName,
+    productName: mapping?.name || undefined,
+    esimPayload,
+    region: mapping?.region || undefined,
+    dataAmount: mapping?.dataAmount || undefined,
+    validity: mapping?.validity || undefined,
+    unitIndex: delivery.unitIndex,
+    unitCount: delivery.unitCount,
+    branding,
+    usageToken: createUsageToken(delivery.id),
+    locale: resolveLocale(delivery.locale, branding.locale),
+  };
+}
+
+// Why a resend didn't go out: refusals are about the delivery's state, send_failed is the email provider
+export type ResendFailureReason = 'not_found' | 'refused' | 'rate_limited' | 'send_failed';
+
+export interface ResendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  reason?: ResendFailureReason;
+}
+
+export interface ResendOptions {
+  to?: string; // Recipient, defaults to the delivery's current customerEmail
+  enforceRateLimit?: boolean; // Default true; audited admin resends skip it
+}
+
+/**
+ * Re-send the delivery email for a delivered eSIM
+ */
+export async function resendDeliveryEmail(
+  deliveryId: string,
+  options: ResendOptions = {},
+): Promise<ResendResult> {
+  const { to, enforceRateLimit = true } = options;
+
+  const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) {
+    return { success: false, reason: 'not_found', error: `EsimDelivery ${deliveryId} not found` };
+  }
+
+  const recipient = to || delivery.customerEmail;
+  if (!recipient) {
+    return { success: false, reason: 'refused', error: 'No recipient email' };
+  }
+
+  if (delivery.renewalOf) {
+    return {
+      success: false,
+      reason: 'refused',
+      error: 'Renewals have no eSIM of their own, resend the renewed delivery',
+    };
+  }
+
+  if (delivery.status !== 'delivered' || !delivery.payloadEncrypted) {
+    return {
+      success: false,
+      reason: 'refused',
+      error: `Delivery is ${delivery.status}, nothing to resend`,
+    };
+  }
+
+  if (enforceRateLimit) {
+    const recentResends = await prisma.deliveryAttempt.count({
+      where: {
+        deliveryId,
+        channel: 'email_resend',
+        createdAt: { gte: new Date(Date.now() - RESEND_WINDOW_MS) },
+      },
+    });
+    if (recentResends >= MAX_RESENDS_PER_DAY) {
+      console.warn(
+        `[Delivery] Resend limit reached for delivery ${deliveryId} (${recentResends} in 24h)`,
+      );
+      return {
+        success: false,
+        reason: 'rate_limited',
+        error: 'Resend limit reached, try again later',
+      };
+    }
+  }
+
+  console.log(`[Delivery] Resending delivery ${deliveryId} to ${recipient}`);
+
+  const pageLink = createDeliveryPageLink();
+  const emailResult = await sendDeliveryEmail({
+    to: recipient,
+    ...(await loadDeliveryContent(delivery)),
+    deliveryPageUrl: pageLink?.url,
+  });
+  if (emailResult.success) {
+    await activateDeliveryPageLink(deliveryId, pageLink);
+  }
+
+  await recordDeliveryAttempt(
+    prisma,
+    deliveryId,
+    'email_resend',
+    emailResult.success ? `sent:${emailResult.messageId}` : `failed:${emailResult.error}`,
+  );
+
+  // A resend also completes an email step whose job gave up, unblocking the order's fulfillment,
+  // and gives a dead-lettered fulfillment another run
+  const fulfillmentTerminal = delivery.fulfillmentStatus === 'failed_terminal';
+  if (emailResult.success && (delivery.emailStatus !== 'sent' || fulfillmentTerminal)) {
+    await prisma.$transaction(async (tx) => {
+      await tx.esimDelivery.update({ where: { id: deliveryId }, data: { emailStatus: 'sent' } });
+      if (
+        delivery.fulfillmentStatus === 'pending' ||
+        delivery.fulfillmentStatus === 'failed' ||
+        fulfillmentTerminal
+      ) {
+        await getJobQueue().send(
+          'create-fulfillment',
+          { shop: delivery.shop, orderId: delivery.orderId },
+          { ...RETRY_POLICIES['create-fulfillment'], db: transactionDb(tx) },
+        );
+      }
+    });
+  }
+
+  return emailResult.success ? emailResult : { ...emailResult, reason: 'send_failed' };
+}
+
+export interface RetryResult {
+  deliveryId: string;
+  retried: boolean;
+  reason?: string;
+}
+
+const RETRYABLE_STATUSES = ['failed', 'failed_terminal'];
+
+/**
+ * Reset a failed or failed_terminal (dead-lettered) delivery to pending and enqueue provisioning.
+ * Refuses once the delivery has its vendor order. A vendor order placed by an attempt that
+ * failed before saving it (an EsimOrder row or only at FiRoam) is adopted by the provision job.
+ */
+export async function retryFailedDelivery(deliveryId: string): Promise<RetryResult> {
+  const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+
+  if (!delivery) {
+    return { deliveryId, retried: false, reason: 'not found' };
+  }
+  if (!RETRYABLE_STATUSES.includes(delivery.status)) {
+    return { deliveryId, retried: false, reason: `status is ${delivery.status}` };
+  }
+  if (delivery.vendorReferenceId) {
+    return { deliveryId, retried: false, reason: 'vendor order already exists' };
+  }
+  if (delivery.cancellationRef) {
+    return { deliveryId, retried: false, reason: 'cancellation requested' };
+  }
+
+  const queue = getJobQueue();
+
+  // Conditional reset and enqueue commit together, so concurrent retries enqueue once
+  const retried = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.esimDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: { in: RETRYABLE_STATUSES },
+        vendorReferenceId: null,
+        cancellationRef: null,
+      },
+      data: { status: 'pending', lastError: null },
+    });
+    if (count === 0) return false;
+
+    await queue.send(
+      'provision-esim',
+      {
+        deliveryId,
+        orderId: delivery.orderId,
+        orderName: delivery.orderName,
+        lineItemId: delivery.lineItemId,
+        variantId: delivery.variantId,
+        customerEmail: delivery.customerEmail,
+        sku: delivery.sku,
+      },
+      { ...RETRY_POLICIES['provision-esim'], db: transactionDb(tx) },
+    );
+    return true;
+  });
+
+  if (!retried) {
+    return { deliveryId, retried: false, reason: 'delivery changed concurrently' };
+  }
+
+  console.log(`[Delivery] Re-enqueued provisioning for failed delivery ${deliveryId}`);
+  return { deliveryId, retried: true };
+}
+
+// A delivery untouched this long in pending/provisioning has lost its job (default 30 minutes,
+// past the provision-esim job's 10 minute expiry)
+const STUCK_DELIVERY_MS = Number(process.env.STUCK_DELIVERY_MINUTES || 30) * 60 * 1000;
+const SWEEP_BATCH_SIZE = 50;
+
+export type SweepOutcome = 'adopting' | 'requeued' | 'queued' | 'lookup_failed' | 'changed';
+
+export interface SweepResult {
+  stuck: number;
+  counts: Record<SweepOutcome, number>;
+  deliveries: Array<{
+    id: string;
+    status: string;
+    outcome: SweepOutcome;
+    vendorOrder?: string;
+    error?: string;
+  }>;
+}
+
+/**
+ * Recover deliveries stuck in pending/provisioning, e.g. after the worker died mid-job.
+ * Each one is checked against its provider first: if an order was already placed, the re-enqueued
+ * provision job completes the delivery from it (adopting); otherwise it orders as usual (requeued).
+ * Deliveries that still have a queued or running provision-esim job are left alone.
+ */
+export async function sweepStuckDeliveries(): Promise<SweepResult> {
+  const stuck = await prisma.esimDelivery.findMany({
+    where: {
+      status: { in: ['pending', 'provisioning'] },
+      cancellationRef: null,
+      updatedAt: { lt: new Date(Date.now() - STUCK_DELIVERY_MS) },
+    },
+    orderBy: { updatedAt: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  const result: SweepResult = {
+    stuck: stuck.length,
+    counts: { adopting: 0, requeued: 0, queued: 0, lookup_failed: 0, changed: 0 },
+    deliveries: [],
+  };
+  if (stuck.length === 0) return result;
+
+  const live = await prisma.$queryRaw<Array<{ deliveryId: string }>>`
+    SELECT data->>'deliveryId' AS "deliveryId" FROM pgboss.job
+    WHERE name = 'provision-esim'
+      AND state IN ('created', 'retry', 'active')
+      AND data->>'deliveryId' = ANY(${stuck.map((d) => d.id)})
+  `;
+  const liveIds = new Set(live.map((row) => row.deliveryId));
+  const queue = getJobQueue();
+
+  for (const delivery of stuck) {
+    const record = (entry: Omit<SweepResult['deliveries'][number], 'id' | 'status'>) => {
+      result.counts[entry.outcome]++;
+      result.deliveries.push({ id: delivery.id, status: delivery.status, ...entry });
+    };
+
+    if (liveIds.has(delivery.id)) {
+      record({ outcome: 'queued' });
+      continue;
+    }
+
+    let vendorOrder: string | null;
+    try {
+      vendorOrder = await findExistingVendorOrder(delivery, await getProviderForDelivery(delivery));
+    } catch (err) {
+      // Left as-is for the next sweep rather than risking a second order
+      record({ outcome: 'lookup_failed', error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+
+    // Conditional reset and enqueue as in a manual retry; updatedAt catches a concurrent claim
+    const requeued = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.esimDelivery.updateMany({
+        where: { id: delivery.id, status: delivery.status, updatedAt: delivery.updatedAt },
+        data: { status: 'pending' },
+      });
+      if (count === 0) return false;
+
+      await queue.send(
+        'provision-esim',
+        {
+          deliveryId: delivery.id,
+          orderId: delivery.orderId,
+          orderName: delivery.orderName,
+          lineItemId: delivery.lineItemId,
+          variantId: delivery.variantId,
+          customerEmail: delivery.customerEmail,
+          sku: delivery.sku,
+        },
+        { ...RETRY_POLICIES['provision-esim'], db: transactionDb(tx) },
+      );
+      return true;
+    });
+
+    if (!requeued) {
+      record({ outcome: 'changed' });
+    } else if (vendorOrder) {
+      record({ outcome: 'adopting', vendorOrder });
+    } else {
+      record({ outcome: 'requeued' });
+    }
+  }
+
+  return result;
+}
+
+export interface StalledStep {
+  job: 'send-delivery-email' | 'create-fulfillment';
+  key: string; // Delivery id for emails, order id for fulfillments
+  lastJobId: string | null;
+  lastJobState: string | null;
+}
+
+/**
+ * Email and fulfillment steps still pending with no job left to finish them. A job that
+ * expires on its last attempt never reaches retryOrDeadLetter, so these are handed to the
+ * dead-letter queue here: the step is marked failed_terminal and the operators are alerted.
+ */
+export async function sweepStalledSteps(): Promise<StalledStep[]> {
+  const staleBefore = new Date(Date.now() - STUCK_DELIVERY_MS);
+
+  const emailPending = await prisma.esimDelivery.findMany({
+    where: {
+      status: 'delivered',
+      emailStatus: { in: ['pending', 'failed'] },
+      updatedAt: { lt: staleBefore },
+    },
+    select: { id: true },
+    orderBy: { updatedAt: 'asc' },
+    take: SWEEP_BATCH_SIZE,
+  });
+
+  // Orders waiting on another unit are deferred on purpose - only look at ones ready to fulfill
+  const fulfillmentPending = await prisma.esimDelivery.findMany({
+    where: {
+      status: 'delivered',
+      emailStatus: { in: ['sent', 'skipped'] },
+      fulfillmentStatus: { in: ['pending', 'failed'] },
+      updatedAt: { lt: staleBefore },
+    },
+    select: { orderId: true, shop: true },
+    distinct: ['orderId'],
+    take: SWEEP_BATCH_SIZE,
+  });
+  const readyOrders: Array<{ orderId: string; shop: string }> = [];
+  for (const order of fulfillmentPending) {
+    const outstanding = await prisma.esimDelivery.count({
+      where: {
+        orderId: order.orderId,
+        OR: [
+          { status: { notIn: ['delivered', 'cancelled', 'not_applicable'] } },
+          { emailStatus: { in: ['pending', 'failed', 'failed_terminal'] } },
+        ],
+      },
+    });
+    if (outstanding === 0) readyOrders.push(order);
+  }
+
+  const stalled: StalledStep[] = [];
+  const queue = getJobQueue();
+
+  const check = async (
+    job: StalledStep['job'],
+    keyField: 'deliveryId' | 'orderId',
+    keys: string[],
+    data: (key: string) => Record<string, unknown>,
+  ) => {
+    if (keys.length === 0) return;
+
+    const keyExpr =
+      keyField === 'deliveryId' ? Prisma.sql`data->>'deliveryId'` : Prisma.sql`data->>'orderId'`;
+
+    // Latest job per step; one still queued or running will finish (or dead-letter) it
+    const latest = await prisma.$queryRaw<Array<{ key: string; id: string; state: string }>>`
+      SELECT DISTINCT ON (${keyExpr}) ${keyExpr} AS key, id::text AS id, state::text AS state
+      FROM pgboss.job
+      WHERE name = ${job} AND ${keyExpr} = ANY(${keys}::text[])
+      ORDER BY ${keyExpr}, createdon DESC
+    `;
+    const latestByKey = new Map(latest.map((row) => [row.key, row]));
+
+    for (const key of keys) {
+      const last = latestByKey.get(key);
+      if (last && ['created', 'retry', 'active'].includes(last.state)) continue;
+
+      const deadLetter: DeadLetterJobData = {
+        name: job,
+        jobId: last?.id ?? 'none',
+        data: data(key),
+        error:
+          last?.state === 'expired'
+            ? 'Job expired on its last attempt'
+            : 'No job left to finish this step',
+        permanent: false,
+        retryCount: 0,
+      };
+      // One dead-letter job per step until it is handled, however often the sweep runs
+      await queue.send(DEAD_LETTER_QUEUE, deadLetter, {
+        ...RETRY_POLICIES['dead-letter'],
+        singletonKey: `stalled:${job}:${key}`,
+      });
+      stalled.push({
+        job,
+        key,
+        lastJobId: last?.id ?? null,
+        lastJobState: last?.state ?? null,
+      });
+    }
+  };
+
+  await check(
+    'send-delivery-email',
+    'deliveryId',
+    emailPending.map((d) => d.id),
+    (deliveryId) => ({ deliveryId }),
+  );
+  const shopByOrder = new Map(readyOrders.map((o) => [o.orderId, o.shop]));
+  await check(
+    'create-fulfillment',
+    'orderId',
+    readyOrders.map((o) => o.orderId),
+    (orderId) => ({ shop: shopByOrder.get(orderId), orderId }),
+  );
+
+  return stalled;
+}
@@ -0,0 +1,68 @@
+/**
+ * Delivery Access Service
+ * Tokenized links to the customer retrieval page (GET /delivery/:token)
+ */
+import crypto from 'crypto';
+import type { EsimDelivery } from '@prisma/client';
+import prisma from '../db/prisma';
+import { getPublicBaseUrl } from '../utils/publicUrl';
+
+const ACCESS_TOKEN_TTL_DAYS = Number(process.env.DELIVERY_LINK_TTL_DAYS || 90);
+const ACCESS_TOKEN_FORMAT = /^[A-Za-z0-9_-]{43}$/; // base64url of 32 bytes
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export interface DeliveryPageLink {
+  url: string;
+  tokenHash: string;
+}
+
+/**
+ * New retrieval link for a delivery, not valid until activated. Activate it only once the
+ * email carrying it was sent, so a failed send never kills the link in the last email that arrived.
+ * Returns undefined when no public base URL is configured.
+ */
+export function createDeliveryPageLink(): DeliveryPageLink | undefined {
+  const baseUrl = getPublicBaseUrl();
+  if (!baseUrl) return undefined;
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { url: `${baseUrl}/delivery/${token}`, tokenHash: hashToken(token) };
+}
+
+/**
+ * Make the link the delivery's only valid one. Only the hash is stored, so every
+ * email gets a new token and links in earlier emails stop working.
+ */
+export async function activateDeliveryPageLink(
+  deliveryId: string,
+  link: DeliveryPageLink | undefined,
+): Promise<void> {
+  if (!link) return;
+
+  await prisma.esimDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      accessTokenHash: link.tokenHash,
+      accessExpiresAt: new Date(Date.now() + ACCESS_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+}
+
+/**
+ * Resolve a retrieval token to a delivered eSIM, or null if unknown, expired or no longer viewable
+ */
+export async function findDeliveryByAccessToken(token: string): Promise<EsimDelivery | null> {
+  if (!ACCESS_TOKEN_FORMAT.test(token)) return null;
+
+  const delivery = await prisma.esimDelivery.findUnique({
+    where: { accessTokenHash: hashToken(token) },
+  });
+
+  if (!delivery || !delivery.accessExpiresAt || delivery.accessExpiresAt < new Date()) return null;
+  if (delivery.status !== 'delivered' || !delivery.payloadEncrypted) return null;
+
+  return delivery;
+}
@@ -0,0 +1,164 @@
+/**
+ * Customer Retrieval Page
+ * HTML for GET /delivery/:token - the same QR code and details as the delivery email
+ */
+import {
+  getInstallDetails,
+  formatUnitLabel,
+  buildUsageUrl,
+  generateQRCodeBase64,
+  type DeliveryContent,
+} from './email';
+import { getDefaultBranding } from './shops';
+
+// The page is served from our own origin, so unlike the email every value is escaped
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const PAGE_STYLES = `
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5; }
+    .container { max-width: 600px; margin: 0 auto; background: white; min-height: 100vh; }
+    .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center; }
+    .header h1 { margin: 0; font-size: 24px; }
+    .content { padding: 5px 30px 30px; }
+    .qr-section { text-align: center; background: #f8f9fa; padding: 30px; border-radius: 12px; margin: 20px 0; }
+    .qr-code img { width: 250px; max-width: 100%; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,0.1); }
+    .button { display: inline-block; background: #667eea; color: white; text-decoration: none; font-weight: bold; padding: 14px 28px; border-radius: 8px; margin: 6px; }
+    .button.secondary { background: #3b82f6; }
+    .details-box { background: #e8f4f8; padding: 20px; border-radius: 8px; margin: 20px 0; }
+    .details-box h3 { margin-top: 0; color: #2c5282; }
+    .manual-codes { background: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #ffc107; }
+    .manual-codes h3 { margin-top: 0; color: #856404; }
+    .code-box { background: white; padding: 12px; border-radius: 4px; font-family: monospace; font-size: 14px; word-break: break-all; margin: 10px 0; border: 1px solid #e2e8f0; }
+    .warning { background: #fed7d7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #fc8181; }
+    .footer { background: #2d3748; color: #a0aec0; padding: 20px; text-align: center; font-size: 12px; }
+    .footer a { color: #90cdf4; }`;
+
+/**
+ * Build the retrieval page for a delivered eSIM
+ */
+export async function buildDeliveryPageHtml(
+  data: DeliveryContent,
+  pdfUrl: string,
+): Promise<string> {
+  const { orderNumber, productName, esimPayload, region, dataAmount, validity } = data;
+  const branding = data.branding || getDefaultBranding();
+  const unitLabel = formatUnitLabel(data);
+  const { smdpAddress, activationCode, links } = getInstallDetails(esimPayload);
+  const qrCodeBase64 = await generateQRCodeBase64(esimPayload.lpa);
+
+  const details = [
+    ['Region', region],
+    ['Data', dataAmount],
+    ['Validity', validity],
+  ].filter((row): row is [string, string] => !!row[1]);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>Your eSIM - Order ${escapeHtml(orderNumber)}</title>
+  <style>${PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${escapeHtml(productName || 'Your eSIM')}</h1>
+      <p>Order ${escapeHtml(orderNumber)}${unitLabel ? ` &middot; ${unitLabel}` : ''}</p>
+    </div>
+
+    <div class="content">
+      ${
+        details.length > 0
+          ? `<div class="details-box">
+        <h3>📱 eSIM Details</h3>
+        ${details.map(([label, value]) => `<p><strong>${label}:</strong> ${escapeHtml(value)}</p>`).join('\n        ')}
+      </div>`
+          : ''
+      }
+
+      <div class="warning">
+        <strong>⚠️ Each QR code can only be installed once.</strong>
+        If this eSIM is already on your phone, don't scan it again - turn it on from your mobile settings when you arrive.
+      </div>
+
+      <div class="qr-section">
+        <h2>📲 Install Your eSIM</h2>
+        ${
+          links
+            ? `<a class="button" href="${escapeHtml(links.ios)}" target="_blank" rel="noreferrer">📱 Install on iPhone</a>
+        <a class="button" href="${escapeHtml(links.android)}">🤖 Install on Android</a>
+        <p style="color: #666; font-size: 14px;"><em>On another device? Scan this QR code from your phone's Settings app</em></p>`
+            : `<p style="color: #666; font-size: 14px;"><em>Scan this QR code from your phone's Settings app</em></p>`
+        }
+        <div class="qr-code">
+          <img src="data:image/png;base64,${qrCodeBase64}" alt="eSIM QR Code" />
+        </div>
+        <a class="button secondary" href="${escapeHtml(pdfUrl)}">⬇️ Download PDF</a>
+        <a class="button secondary" href="${escapeHtml(buildUsageUrl(data))}" target="_blank" rel="noreferrer">📈 View Usage</a>
+      </div>
+
+      <div class="manual-codes">
+        <h3>⌨️ Manual Installation</h3>
+        ${
+          smdpAddress
+            ? `<p><strong>SM-DP+ Address:</strong></p>
+        <div class="code-box">${escapeHtml(smdpAddress)}</div>`
+            : ''
+        }
+        <p><strong>Activation Code:</strong></p>
+        <div class="code-box">${escapeHtml(activationCode)}</div>
+        <p><strong>ICCID:</strong></p>
+        <div class="code-box">${escapeHtml(esimPayload.iccid)}</div>
+      </div>
+    </div>
+
+    <div class="footer">
+      <p>Need help? Contact our support team${branding.supportEmail ? ` at <a href="mailto:${escapeHtml(branding.supportEmail)}">${escapeHtml(branding.supportEmail)}</a>` : ''}.</p>
+      <p>© ${new Date().getFullYear()} ${escapeHtml(branding.brandName)}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Page for unknown or expired links - doesn't reveal which
+ */
+export function buildDeliveryNotFoundHtml(): string {
+  const branding = getDefaultBranding();
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>Link expired</title>
+  <style>${PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>This link is no longer valid</h1>
+    </div>
+    <div class="content">
+      <p>The link may have expired, or a newer email with a fresh link was sent to you. Check your inbox for the latest eSIM email.</p>
+      ${branding.supportEmail ? `<p>Still stuck? Contact <a href="mailto:${escapeHtml(branding.supportEmail)}">${escapeHtml(branding.supportEmail)}</a> with your order number.</p>` : ''}
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
@@ -2,10 +2,15 @@
  * Email Service for eSIM Delivery
  * Uses Resend API for email delivery
  */
+import * as fs from 'fs';
 import { Resend } from 'resend';
 import QRCode from 'qrcode';
 import PDFDocument from 'pdfkit';
 import type { PrismaClient } from '@prisma/client';
+import { getDefaultBranding, type ShopBranding } from './shops';
+import { buildUsagePageUrl } from './usageLinks';
+import { parseLpa, buildInstallLinks, type InstallLinks } from '../utils/lpa';
+import { DEFAULT_LOCALE, format, getMessages, isRtl, type Locale, type Messages } from '../i18n';
 
 export interface EsimPayload {
   lpa: string;
@@ -13,32 +18,80 @@ export interface EsimPayload {
   iccid: string;
 }
 
-export interface DeliveryEmailData {
-  to: string;
+// What the email, PDF and retrieval page show for one eSIM
+export interface DeliveryContent {
   orderNumber: string;
   productName?: string;
   esimPayload: EsimPayload;
   region?: string;
   dataAmount?: string;
   validity?: string;
+  unitIndex?: number; // 0-based position within a multi-quantity line item
+  unitCount?: number;
+  branding?: ShopBranding; // Defaults to the env-configured brand
+  usageToken: string; // Signed token authorizing the usage dashboard link
+  locale?: Locale; // Language of the email and PDF, defaults to English
+}
+
+export interface DeliveryEmailData extends DeliveryContent {
+  to: string;
+  deliveryPageUrl?: string; // Tokenized /delivery/:token link, when PUBLIC_BASE_URL is set
+}
+
+export interface InstallDetails {
+  smdpAddress: string; // Empty if the LPA can't be parsed
+  activationCode: string;
+  links: InstallLinks | null;
 }
 
 /**
- * Parse SM-DP+ address from LPA string
- * LPA format: LPA:1$<smdp_address>$<activation_code>
+ * Manual-entry codes and one-tap install links for an eSIM.
+ * An unparseable LPA leaves only the QR code, rather than showing a made-up address.
  */
-function parseSmdpFromLpa(lpa: string): string {
-  const parts = lpa.split('$');
-  if (parts.length >= 2) {
-    return parts[1];
-  }
-  return 'smdp.io';
+export function getInstallDetails(esimPayload: EsimPayload): InstallDetails {
+  const parsed = parseLpa(esimPayload.lpa);
+  return {
+    smdpAddress: parsed?.smdpAddress || '',
+    activationCode: esimPayload.activationCode || parsed?.matchingId || '',
+    links: buildInstallLinks(esimPayload.lpa),
+  };
+}
+
+/**
+ * Label identifying which eSIM of a multi-quantity purchase this is (e.g. "eSIM 2 of 3").
+ * Returns an empty string for single-unit purchases.
+ */
+export function formatUnitLabel(
+  data: DeliveryContent,
+  messages: Messages = getMessages(DEFAULT_LOCALE),
+): string {
+  const { unitIndex = 0, unitCount = 1 } = data;
+  return unitCount > 1
+    ? format(messages.unitLabel, { index: unitIndex + 1, count: unitCount })
+    : '';
+}
+
+/**
+ * Usage dashboard link on the shop's storefront
+ */
+export function buildUsageUrl(data: DeliveryContent): string {
+  const { storefrontUrl } = data.branding || getDefaultBranding();
+  return buildUsagePageUrl(storefrontUrl, data.usageToken);
+}
+
+// Catalog strings mark bold text with "**"
+function toHtml(message: string): string {
+  return message.replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+}
+
+function toPlain(message: string): string {
+  return message.replace(/\*\*(.+?)\*\*/g, '$1');
 }
 
 /**
  * Generate QR code as base64 string for CID attachment
  */
-async function generateQRCodeBase64(lpa: string): Promise<string> {
+export async function generateQRCodeBase64(lpa: string): Promise<string> {
   const buffer = await QRCode.toBuffer(lpa, {
     errorCorrectionLevel: 'M',
     margin: 2,
@@ -52,13 +105,83 @@ async function generateQRCodeBase64(lpa: string): Promise<string> {
   return buffer.toString('base64');
 }
 
+const ARABIC_SCRIPT = /[\u0600-\u06ff\u0750-\u077f\ufb50-\ufdff\ufe70-\ufeff]/;
+const MIRRORED_BRACKETS: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[' };
+
+/**
+ * TrueType fonts for the PDF when the built-in Helvetica can't draw the script (Arabic).
+ * Null if they aren't installed.
+ */
+function getUnicodeFontFiles(): { regular: string; bold: string } | null {
+  const regular = process.env.PDF_UNICODE_FONT || '/usr/share/fonts/dejavu/DejaVuSans.ttf';
+  const bold = process.env.PDF_UNICODE_FONT_BOLD || '/usr/share/fonts/dejavu/DejaVuSans-Bold.ttf';
+  return fs.existsSync(regular) && fs.existsSync(bold) ? { regular, bold } : null;
+}
+
+/**
+ * Split copy into lines that fit the width at the document's current font size
+ */
+function wrapWords(doc: PDFKit.PDFDocument, text: string, width: number): string[][] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line.length && doc.widthOfString([...line, word].join(' ')) > width) {
+      lines.push(line);
+      line = [];
+    }
+    line.push(word);
+  }
+  if (line.length) lines.push(line);
+  return lines;
+}
+
+/**
+ * Put one line of right-to-left copy into the order PDFKit should draw it.
+ * PDFKit has no bidi support: it shapes each word separately (fontkit reverses the letters
+ * of Arabic words) but lays the words out left to right. So the word order is reversed here,
+ * keeping runs of Latin words and numbers in reading order, and brackets are mirrored.
+ */
+function toVisualRtl(words: string[]): string {
+  const runs: Array<{ ltr: boolean; words: string[] }> = [];
+  for (const word of words) {
+    const ltr = !ARABIC_SCRIPT.test(word) && /[A-Za-z0-9]/.test(word);
+    const last = runs[runs.length - 1];
+    if (ltr && last?.ltr) {
+      last.words.push(word);
+    } else {
+      runs.push({
+        ltr,
+        words: [ltr ? word : word.replace(/[()[\]]/g, (bracket) => MIRRORED_BRACKETS[bracket])],
+      });
+    }
+  }
+  return runs
+    .reverse()
+    .map((run) => run.words.join(' '))
+    .join(' ');
+}
+
 /**
  * Generate PDF with eSIM details and QR code
  */
-async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
+export async function generateEsimPDF(data: DeliveryContent): Promise<string> {
   const { orderNumber, productName, esimPayload, region, dataAmount, validity } = data;
-  const productTitle = productName || 'Your eSIM';
-  const smdpAddress = parseSmdpFromLpa(esimPayload.lpa);
+
+  let locale = data.locale ?? DEFAULT_LOCALE;
+  const unicodeFonts = isRtl(locale) ? getUnicodeFontFiles() : null;
+  if (isRtl(locale) && !unicodeFonts) {
+    console.warn(
+      `[EmailService] No Unicode font for a ${locale} PDF (set PDF_UNICODE_FONT), using ${DEFAULT_LOCALE}`,
+    );
+    locale = DEFAULT_LOCALE;
+  }
+  const m = getMessages(locale);
+  const rtl = isRtl(locale);
+
+  const productTitle = productName || m.defaultProductTitle;
+  const { smdpAddress, activationCode, links } = getInstallDetails(esimPayload);
+  const unitLabel = formatUnitLabel(data, m);
+  const usageUrl = buildUsageUrl(data);
 
   // Generate QR code as buffer
   const qrCodeBuffer = await QRCode.toBuffer(esimPayload.lpa, {
@@ -83,45 +206,92 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
       });
       doc.on('error', reject);
 
+      const fonts = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+      if (unicodeFonts) {
+        doc.registerFont('Unicode', unicodeFonts.regular);
+        doc.registerFont('Unicode-Bold', unicodeFonts.bold);
+        fonts.regular = 'Unicode';
+        fonts.bold = 'Unicode-Bold';
+      }
+
+      // Layout below is written left to right; RTL documents mirror it around the page centre
+      const mirrorX = (x: number, width: number) => (rtl ? doc.page.width - x - width : x);
+
+      // Draw copy in the current font and return the height it took
+      const write = (
+        text: string,
+        x: number,
+        y: number,
+        options: PDFKit.Mixins.TextOptions = {},
+      ): number => {
+        const width = options.width ?? doc.page.width - doc.page.margins.right - x;
+        if (!rtl || !ARABIC_SCRIPT.test(text)) {
+          const textOptions: PDFKit.Mixins.TextOptions = {
+            ...options,
+            width,
+            align: rtl && options.align !== 'center' ? 'right' : options.align,
+          };
+          doc.text(text, mirrorX(x, width), y, textOptions);
+          return doc.heightOfString(text, textOptions);
+        }
+
+        // Wrapped here rather than by PDFKit so each line can be reordered on its own.
+        // A point of slack keeps PDFKit from re-wrapping a line that measured exactly full.
+        const lineHeight = doc.currentLineHeight(true);
+        const lines = wrapWords(doc, text, width - 1);
+        lines.forEach((words, i) => {
+          doc.text(toVisualRtl(words), mirrorX(x, width), y + i * lineHeight, {
+            ...options,
+            width,
+            align: options.align === 'center' ? 'center' : 'right',
+          });
+        });
+        return lines.length * lineHeight;
+      };
+
       // Header with gradient-like effect using rectangles
       doc.rect(0, 0, doc.page.width, 120).fill('#667eea');
 
       // Title
-      doc
-        .fillColor('#FFFFFF')
-        .fontSize(28)
-        .font('Helvetica-Bold')
-        .text('Your eSIM is Ready!', 50, 40, {
-          align: 'center',
-        });
+      doc.fillColor('#FFFFFF').fontSize(28).font(fonts.bold);
+      write(m.title, 50, 40, { align: 'center' });
 
-      doc.fontSize(14).font('Helvetica').text(`Order ${orderNumber}`, 50, 75, {
+      doc.fontSize(14).font(fonts.regular);
+      write(`${format(m.order, { orderNumber })}${unitLabel ? ` · ${unitLabel}` : ''}`, 50, 75, {
         align: 'center',
       });
 
       // Reset position
       let yPos = 150;
 
+      const writeList = (items: string[], x: number) => {
+        items.forEach((item) => {
+          yPos += Math.max(14, write(toPlain(item), x, yPos) + 3);
+        });
+      };
+
       // Product details
-      doc.fillColor('#333333').fontSize(16).font('Helvetica-Bold').text(productTitle, 50, yPos);
+      doc.fillColor('#333333').fontSize(16).font(fonts.bold);
+      write(productTitle, 50, yPos);
       yPos += 30;
 
       // eSIM Details box
       if (region || dataAmount || validity) {
-        doc.fontSize(14).font('Helvetica-Bold').text('eSIM Details', 50, yPos);
+        doc.fontSize(14).font(fonts.bold);
+        write(m.detailsTitle, 50, yPos);
         yPos += 25;
 
-        doc.fontSize(11).font('Helvetica');
+        doc.fontSize(11).font(fonts.regular);
         if (region) {
-          doc.text(`Region: ${region}`, 70, yPos);
+          write(`${m.region}: ${region}`, 70, yPos);
           yPos += 20;
         }
         if (dataAmount) {
-          doc.text(`Data: ${dataAmount}`, 70, yPos);
+          write(`${m.data}: ${dataAmount}`, 70, yPos);
           yPos += 20;
         }
         if (validity) {
-          doc.text(`Validity: ${validity}`, 70, yPos);
+          write(`${m.validity}: ${validity}`, 70, yPos);
           yPos += 30;
         }
       }
@@ -133,85 +303,65 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
       }
 
       // Important Notes - BEFORE installation
-      doc
-        .fontSize(14)
-        .font('Helvetica-Bold')
-        .fillColor('#c53030')
-        .text('READ BEFORE INSTALLING', 50, yPos);
+      doc.fontSize(14).font(fonts.bold).fillColor('#c53030');
+      write(m.warningTitle, 50, yPos);
       yPos += 18;
-      doc.fontSize(10).font('Helvetica').fillColor('#333333');
-
-      const importantNotes = [
-        '• Install BEFORE you travel - you need WiFi to install',
-        '• Each QR code can only be installed ONCE - keep this document safe',
-        '• After installing, keep the eSIM turned OFF until you arrive',
-        '• Only turn it on and enable Data Roaming when you reach your destination',
-        "• Don't delete the eSIM profile - it cannot be reinstalled",
-      ];
+      doc.fontSize(10).font(fonts.regular).fillColor('#333333');
 
-      importantNotes.forEach((note) => {
-        doc.text(note, 70, yPos);
-        yPos += 14;
-      });
+      writeList(
+        m.warnings.map((note) => `• ${note}`),
+        70,
+      );
 
       yPos += 20;
 
-      // iPhone Quick Install Button
-      doc
-        .fontSize(11)
-        .font('Helvetica-Bold')
-        .fillColor('#667eea')
-        .text('iPhone Quick Install:', 50, yPos);
-      yPos += 15;
-
-      const iphoneInstallUrl = `https://esimsetup.apple.com/esim_qrcode_provisioning?carddata=${encodeURIComponent(esimPayload.lpa)}`;
-
-      // Create a clickable button-like link
-      doc
-        .fontSize(12)
-        .font('Helvetica-Bold')
-        .fillColor('#FFFFFF')
-        .rect(50, yPos, 200, 35)
-        .fillAndStroke('#667eea', '#667eea');
-
-      doc.fillColor('#FFFFFF').text('Click to Install on iPhone', 50, yPos + 10, {
-        width: 200,
-        align: 'center',
-        link: iphoneInstallUrl,
-        underline: false,
-      });
+      // One-tap install buttons, for readers on the phone they're installing on
+      if (links) {
+        doc.fontSize(11).font(fonts.bold).fillColor('#667eea');
+        write(m.pdfQuickInstall, 50, yPos);
+        yPos += 15;
+
+        const buttons: Array<[string, string, number]> = [
+          [m.installIphone, links.ios, 50],
+          [m.installAndroid, links.android, 270],
+        ];
+        for (const [label, link, x] of buttons) {
+          doc
+            .fontSize(12)
+            .font(fonts.bold)
+            .fillColor('#FFFFFF')
+            .rect(mirrorX(x, 200), yPos, 200, 35)
+            .fillAndStroke('#667eea', '#667eea');
+
+          doc.fillColor('#FFFFFF');
+          write(label, x, yPos + 10, {
+            width: 200,
+            align: 'center',
+            link,
+            underline: false,
+          });
+        }
 
-      yPos += 40;
+        yPos += 40;
 
-      doc
-        .fontSize(8)
-        .font('Helvetica')
-        .fillColor('#666666')
-        .text('(Opens directly in iPhone settings when clicked)', 50, yPos, {
-          width: 500,
-        });
-      yPos += 25;
+        doc.fontSize(8).font(fonts.regular).fillColor('#666666');
+        yPos += Math.max(25, write(m.pdfQuickInstallHint, 50, yPos, { width: 500 }) + 15);
+      }
 
       // QR Code section
-      doc
-        .fontSize(16)
-        .font('Helvetica-Bold')
-        .fillColor('#667eea')
-        .text('Scan to Install', 50, yPos);
+      doc.fontSize(16).font(fonts.bold).fillColor('#667eea');
+      write(m.pdfScanTitle, 50, yPos);
       yPos += 25;
 
       // Add QR code image
-      doc.image(qrCodeBuffer, 50, yPos, { width: 220, height: 220 });
+      doc.image(qrCodeBuffer, mirrorX(50, 220), yPos, { width: 220, height: 220 });
       yPos += 235;
 
-      doc
-        .fontSize(9)
-        .font('Helvetica')
-        .fillColor('#666666')
-        .text('Scan this QR code in Settings → Add eSIM', 50, yPos, {
-          width: 500,
-          align: 'center',
-        });
+      doc.fontSize(9).font(fonts.regular).fillColor('#666666');
+      write(m.pdfScanHint, 50, yPos, {
+        width: 500,
+        align: 'center',
+      });
       yPos += 20;
 
       // Check if we need a new page for manual installation section (needs ~150px)
@@ -221,35 +371,24 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
       }
 
       // Manual Installation Details
-      doc
-        .fontSize(12)
-        .font('Helvetica-Bold')
-        .fillColor('#333333')
-        .text('Manual Installation (if QR scan fails)', 50, yPos);
+      doc.fontSize(12).font(fonts.bold).fillColor('#333333');
+      write(m.manualTitle, 50, yPos);
       yPos += 18;
 
-      doc.fontSize(9).font('Helvetica-Bold').fillColor('#333333').text('SM-DP+ Address:', 50, yPos);
-      yPos += 12;
-      doc.fontSize(8).font('Courier').fillColor('#2d3748').text(smdpAddress, 50, yPos);
-      yPos += 14;
-
-      doc
-        .fontSize(9)
-        .font('Helvetica-Bold')
-        .fillColor('#333333')
-        .text('Activation Code:', 50, yPos);
-      yPos += 12;
-      doc
-        .fontSize(8)
-        .font('Courier')
-        .fillColor('#2d3748')
-        .text(esimPayload.activationCode, 50, yPos);
-      yPos += 14;
-
-      doc.fontSize(9).font('Helvetica-Bold').fillColor('#333333').text('ICCID:', 50, yPos);
-      yPos += 12;
-      doc.fontSize(8).font('Courier').fillColor('#2d3748').text(esimPayload.iccid, 50, yPos);
-      yPos += 20;
+      const codes: Array<[string, string]> = [
+        ...(smdpAddress ? [[m.smdpLabel, smdpAddress] as [string, string]] : []),
+        [m.activationCodeLabel, activationCode],
+        [m.iccidLabel, esimPayload.iccid],
+      ];
+      for (const [label, value] of codes) {
+        doc.fontSize(9).font(fonts.bold).fillColor('#333333');
+        write(`${label}:`, 50, yPos);
+        yPos += 12;
+        doc.fontSize(8).font('Courier').fillColor('#2d3748');
+        write(value, 50, yPos);
+        yPos += 14;
+      }
+      yPos += 6;
 
       // Add new page for instructions if needed
       if (yPos > 650) {
@@ -258,101 +397,63 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
       }
 
       // Installation Instructions
-      doc
-        .fontSize(14)
-        .font('Helvetica-Bold')
-        .fillColor('#333333')
-        .text('Installation Instructions', 50, yPos);
+      doc.fontSize(14).font(fonts.bold).fillColor('#333333');
+      write(m.pdfInstructionsTitle, 50, yPos);
       yPos += 20;
 
       // iPhone
-      doc
-        .fontSize(12)
-        .font('Helvetica-Bold')
-        .fillColor('#667eea')
-        .text('iPhone (iOS 17.4+)', 50, yPos);
+      doc.fontSize(12).font(fonts.bold).fillColor('#667eea');
+      write(m.iphoneTitle, 50, yPos);
       yPos += 18;
-      doc.fontSize(10).font('Helvetica').fillColor('#333333');
-
-      const iPhoneSteps = [
-        "1. Make sure you're connected to WiFi",
-        '2. Go to Settings → Cellular → Add eSIM',
-        '3. Tap "Use QR Code" and scan the code above',
-        '4. Follow prompts to complete installation',
-        '5. Keep the eSIM turned OFF until you arrive at your destination',
-      ];
+      doc.fontSize(10).font(fonts.regular).fillColor('#333333');
 
-      iPhoneSteps.forEach((step) => {
-        doc.text(step, 70, yPos);
-        yPos += 14;
-      });
+      writeList(
+        m.iphoneSteps.map((step, i) => `${i + 1}. ${step}`),
+        70,
+      );
 
       yPos += 10;
 
       // Android
-      doc.fontSize(12).font('Helvetica-Bold').fillColor('#667eea').text('Android', 50, yPos);
+      doc.fontSize(12).font(fonts.bold).fillColor('#667eea');
+      write(m.androidTitle, 50, yPos);
       yPos += 18;
-      doc.fontSize(10).font('Helvetica').fillColor('#333333');
-
-      const androidSteps = [
-        "1. Make sure you're connected to WiFi",
-        '2. Go to Settings → Network & Internet → SIMs',
-        '3. Tap "Add eSIM" or "Download a SIM instead?"',
-        '4. Choose "Scan QR code" and scan the code above',
-        '5. Keep the eSIM turned OFF until you arrive',
-      ];
+      doc.fontSize(10).font(fonts.regular).fillColor('#333333');
 
-      androidSteps.forEach((step) => {
-        doc.text(step, 70, yPos);
-        yPos += 14;
-      });
+      writeList(
+        m.androidSteps.map((step, i) => `${i + 1}. ${step}`),
+        70,
+      );
 
       yPos += 15;
 
       // Activation Instructions
-      doc
-        .fontSize(14)
-        .font('Helvetica-Bold')
-        .fillColor('#f59e0b')
-        .text('How to Activate (When You Arrive)', 50, yPos);
+      doc.fontSize(14).font(fonts.bold).fillColor('#f59e0b');
+      write(m.activateTitle, 50, yPos);
       yPos += 18;
-      doc.fontSize(10).font('Helvetica').fillColor('#333333');
+      doc.fontSize(10).font(fonts.regular).fillColor('#333333');
 
-      const activationSteps = [
-        '1. When you arrive at your destination, go to Settings → Cellular/Mobile',
-        '2. Select your eSIM and turn it on',
-        '3. Enable Data Roaming for the eSIM',
-        '4. If no connection, toggle Airplane Mode on/off or restart your phone',
-      ];
-
-      activationSteps.forEach((step) => {
-        doc.text(step, 70, yPos);
-        yPos += 14;
-      });
+      writeList(
+        m.activateSteps.map((step, i) => `${i + 1}. ${step}`),
+        70,
+      );
 
       yPos += 15;
 
       // Usage Tracking Section - AFTER activation
-      doc
-        .fontSize(14)
-        .font('Helvetica-Bold')
-        .fillColor('#1a1f71')
-        .text('After Activation: Monitor Your Data', 50, yPos);
+      doc.fontSize(14).font(fonts.bold).fillColor('#1a1f71');
+      write(m.monitorTitle, 50, yPos);
       yPos += 18;
-      doc.fontSize(10).font('Helvetica').fillColor('#333333');
-      doc.text('Once your eSIM is active, track your data usage in real-time:', 50, yPos);
-      yPos += 13;
-      doc
-        .fontSize(9)
-        .font('Helvetica')
-        .fillColor('#1a1f71')
-        .text(`https://fluxyfi.com/pages/my-esim-usage?iccid=${esimPayload.iccid}`, 50, yPos, {
-          link: `https://fluxyfi.com/pages/my-esim-usage?iccid=${esimPayload.iccid}`,
-          underline: true,
-        });
+      doc.fontSize(10).font(fonts.regular).fillColor('#333333');
+      yPos += Math.max(13, write(m.monitorBody, 50, yPos) + 1);
+      doc.fontSize(9).font(fonts.regular).fillColor('#1a1f71');
+      write(usageUrl, 50, yPos, {
+        link: usageUrl,
+        underline: true,
+      });
       yPos += 13;
-      doc.fontSize(9).font('Helvetica').fillColor('#666666');
-      doc.text('Check remaining data, usage history, and validity period', 50, yPos);
+      doc.fontSize(9).font(fonts.regular).fillColor('#666666');
+      write(m.monitorHint, 50, yPos);
       yPos += 15;
 
       // Add new page if needed
@@ -362,12 +463,15 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
       }
 
       // Footer
-      doc
-        .fontSize(8)
-        .fillColor('#666666')
-        .text(`Generated: ${new Date().toLocaleString()}`, 50, yPos, {
-          align: 'center',
-        });
+      doc.fontSize(8).fillColor('#666666');
+      write(
+        format(m.pdfGenerated, {
+          date: new Date().toLocaleString(locale, { numberingSystem: 'latn' }),
+        }),
+        50,
+        yPos,
+        { align: 'center' },
+      );
 
       doc.end();
     } catch (error) {
@@ -376,6 +480,21 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
   });
 }
 
+/**
+ * Numbered instruction rows for the HTML email
+ */
+function buildStepRows(steps: string[], color: string): string {
+  return steps
+    .map(
+      (step, i) => `
+            <tr>
+              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: ${color}; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">${i + 1}</div></td>
+              <td valign="top" style="padding: 8px 0;">${toHtml(step)}</td>
+            </tr>`,
+    )
+    .join('');
+}
+
 /**
  * Build HTML email content for eSIM delivery
  * Uses CID reference for QR code image (Gmail-compatible)
@@ -383,16 +502,26 @@ async function generateEsimPDF(data: DeliveryEmailData): Promise<string> {
 function buildEmailHtml(data: DeliveryEmailData): string {
   const { orderNumber, productName, esimPayload, region, dataAmount, validity } = data;
 
-  const smdpAddress = parseSmdpFromLpa(esimPayload.lpa);
-  const productTitle = productName || 'Your eSIM';
+  const locale = data.locale ?? DEFAULT_LOCALE;
+  const m = getMessages(locale);
+  const dir = isRtl(locale) ? 'rtl' : 'ltr';
+  // Physical sides for the reading direction, for borders and alignment
+  const start = dir === 'rtl' ? 'right' : 'left';
+  const end = dir === 'rtl' ? 'left' : 'right';
+
+  const { smdpAddress, activationCode, links } = getInstallDetails(esimPayload);
+  const productTitle = productName || m.defaultProductTitle;
+  const unitLabel = formatUnitLabel(data, m);
+  const branding = data.branding || getDefaultBranding();
+  const usageUrl = buildUsageUrl(data);
 
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}" dir="${dir}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Your eSIM is Ready!</title>
+  <title>${m.title}</title>
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5; }
     .container { max-width: 600px; margin: 0 auto; background: white; }
@@ -410,36 +539,37 @@ function buildEmailHtml(data: DeliveryEmailData): string {
     .detail-value { color: #2d3748; font-family: monospace; word-break: break-all; }
     .instructions { margin: 30px 0; }
     .instructions h2 { color: #2c5282; border-bottom: 2px solid #667eea; padding-bottom: 10px; }
-    .platform { background: #f7fafc; padding: 20px; border-radius: 8px; margin: 15px 0; border-left: 4px solid #667eea; }
+    .platform { background: #f7fafc; padding: 20px; border-radius: 8px; margin: 15px 0; border-${start}: 4px solid #667eea; }
     .platform h4 { margin: 0 0 10px 0; color: #4a5568; }
     .manual-codes { background: #fff3cd; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #ffc107; }
     .manual-codes h3 { margin-top: 0; color: #856404; }
-    .code-box { background: white; padding: 12px; border-radius: 4px; font-family: monospace; font-size: 14px; word-break: break-all; margin: 10px 0; border: 1px solid #e2e8f0; }
+    .code-box { background: white; padding: 12px; border-radius: 4px; font-family: monospace; font-size: 14px; word-break: break-all; margin: 10px 0; border: 1px solid #e2e8f0; text-align: ${start}; }
     .footer { background: #2d3748; color: #a0aec0; padding: 20px; text-align: center; font-size: 12px; }
     .footer a { color: #90cdf4; }
-    .warning { background: #fed7d7; padding: 15px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #fc8181; }
+    .warning { background: #fed7d7; padding: 15px; border-radius: 8px; margin: 20px 0; border-${start}: 4px solid #fc8181; }
     .warning strong { color: #c53030; }
   </style>
 </head>
 <body>
-  <div class="container">
+  <div class="container" dir="${dir}">
     <div class="header">
-      <h1>Your eSIM is Ready!</h1>
-      <p>Order ${orderNumber}</p>
+      <h1>${m.title}</h1>
+      <p>${format(m.order, { orderNumber })}${unitLabel ? ` &middot; ${unitLabel}` : ''}</p>
     </div>
-    
+
     <div class="content">
-      <p>Thank you for your purchase! Your <strong>${productTitle}</strong> eSIM is ready to install.</p>
-      
+      <p>${toHtml(format(m.thanks, { productTitle }))}</p>
+      ${unitLabel ? `<p>${toHtml(format(m.unitNotice, { unitLabel }))}</p>` : ''}
+
       ${
         region || dataAmount || validity
           ? `
       <div class="details-box">
-        <h3>📱 eSIM Details</h3>
+        <h3>📱 ${m.detailsTitle}</h3>
         <table border="0" cellpadding="0" cellspacing="0" width="100%">
-          ${region ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0; border-bottom: 1px solid #d1e3ed;">Region</td><td style="color: #2d3748; padding: 8px 0; border-bottom: 1px solid #d1e3ed; text-align: right;">${region}</td></tr>` : ''}
-          ${dataAmount ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0; border-bottom: 1px solid #d1e3ed;">Data</td><td style="color: #2d3748; padding: 8px 0; border-bottom: 1px solid #d1e3ed; text-align: right;">${dataAmount}</td></tr>` : ''}
-          ${validity ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0;">Validity</td><td style="color: #2d3748; padding: 8px 0; text-align: right;">${validity}</td></tr>` : ''}
+          ${region ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0; border-bottom: 1px solid #d1e3ed;">${m.region}</td><td style="color: #2d3748; padding: 8px 0; border-bottom: 1px solid #d1e3ed; text-align: ${end};">${region}</td></tr>` : ''}
+          ${dataAmount ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0; border-bottom: 1px solid #d1e3ed;">${m.data}</td><td style="color: #2d3748; padding: 8px 0; border-bottom: 1px solid #d1e3ed; text-align: ${end};">${dataAmount}</td></tr>` : ''}
+          ${validity ? `<tr><td style="font-weight: 600; color: #4a5568; padding: 8px 0;">${m.validity}</td><td style="color: #2d3748; padding: 8px 0; text-align: ${end};">${validity}</td></tr>` : ''}
         </table>
       </div>
       `
@@ -447,148 +577,122 @@ function buildEmailHtml(data: DeliveryEmailData): string {
       }
 
       <div class="warning">
-        <strong>⚠️ Read This Before Installing:</strong>
+        <strong>⚠️ ${m.warningTitle}</strong>
         <ul>
-          <li><strong>Install BEFORE you travel</strong> - you need WiFi to install</li>
-          <li>Each QR code can only be installed <strong>once</strong> - keep this email safe</li>
-          <li>After installing, keep the eSIM <strong>turned off</strong> until you reach your destination</li>
-          <li>Only turn it on and enable <strong>Data Roaming</strong> when you arrive</li>
-          <li>Don't delete the eSIM profile - it cannot be reinstalled</li>
+          ${m.warnings.map((warning) => `<li>${toHtml(warning)}</li>`).join('\n          ')}
         </ul>
       </div>
 
+      ${
+        data.deliveryPageUrl
+          ? `
+      <p style="text-align: center; font-size: 14px; color: #4a5568;">
+        ${m.viewOnline} <a href="${data.deliveryPageUrl}" target="_blank" style="color: #667eea; font-weight: 600;">${m.viewOnlineLink}</a>
+      </p>
+      `
+          : ''
+      }
+
       <div class="qr-section">
-        <h2>📲 Install Your eSIM</h2>
+        <h2>📲 ${m.installTitle}</h2>
+        ${
+          links
+            ? `
         <p style="margin-bottom: 20px;">
-          <!-- Button for iPhone users -->
+          <!-- One-tap install buttons for readers on the phone they're installing on -->
           <table border="0" cellpadding="0" cellspacing="0" style="margin: 0 auto;">
             <tr>
-              <td align="center" bgcolor="#667eea" style="border-radius: 8px; padding: 16px 32px;">
-                <a href="https://esimsetup.apple.com/esim_qrcode_provisioning?carddata=${encodeURIComponent(esimPayload.lpa)}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
-                  📱 Install on iPhone
+              <td align="center" bgcolor="#667eea" style="border-radius: 8px; padding: 16px 24px;">
+                <a href="${links.ios}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
+                  📱 ${m.installIphone}
+                </a>
+              </td>
+              <td style="width: 12px;"></td>
+              <td align="center" bgcolor="#667eea" style="border-radius: 8px; padding: 16px 24px;">
+                <a href="${links.android}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
+                  🤖 ${m.installAndroid}
                 </a>
               </td>
             </tr>
           </table>
         </p>
         <p style="color: #666; font-size: 14px; margin-bottom: 20px;">
-          <em>iPhone users: tap the button above for instant installation</em><br/>
-          <em>Android users: scan the QR code below in your Settings app</em>
+          <em>${m.installLinksHint}</em><br/>
+          <em>${m.scanHint}</em>
+        </p>
+        `
+            : `
+        <p style="color: #666; font-size: 14px; margin-bottom: 20px;">
+          <em>${m.scanOnlyHint}</em>
         </p>
+        `
+        }
         <div class="qr-code">
           <img src="cid:qrcode" alt="eSIM QR Code" />
         </div>
         <p style="margin-top: 20px; font-size: 12px; color: #888;">
-          Keep this QR code safe - you may need it to reinstall your eSIM.
+          ${m.keepQrSafe}
         </p>
       </div>
 
       <div class="instructions">
-        <h2>📖 How to Install</h2>
-        
+        <h2>📖 ${m.howToInstall}</h2>
+
         <div class="platform">
-          <h4>🍎 iPhone (iOS 17.4+)</h4>
-          <table border="0" cellpadding="0" cellspacing="0" width="100%">
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">1</div></td>
-              <td valign="top" style="padding: 8px 0;">Make sure you're connected to <strong>WiFi</strong></td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">2</div></td>
-              <td valign="top" style="padding: 8px 0;">Tap the <strong>"Install on iPhone"</strong> button above (easiest method)</td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">3</div></td>
-              <td valign="top" style="padding: 8px 0;"><em>OR</em> Go to <strong>Settings → Cellular → Add eSIM</strong> and scan the QR code</td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">4</div></td>
-              <td valign="top" style="padding: 8px 0;">After installation, keep the eSIM <strong>turned off</strong> until you arrive at your destination</td>
-            </tr>
+          <h4>🍎 ${m.iphoneTitle}</h4>
+          <table border="0" cellpadding="0" cellspacing="0" width="100%">${buildStepRows(m.iphoneSteps, '#667eea')}
           </table>
         </div>
 
         <div class="platform">
-          <h4>🤖 Android</h4>
-          <table border="0" cellpadding="0" cellspacing="0" width="100%">
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">1</div></td>
-              <td valign="top" style="padding: 8px 0;">Make sure you're connected to <strong>WiFi</strong></td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">2</div></td>
-              <td valign="top" style="padding: 8px 0;">Go to <strong>Settings → Network & Internet → SIMs</strong></td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">3</div></td>
-              <td valign="top" style="padding: 8px 0;">Tap <strong>Add eSIM</strong> or <strong>Download a SIM instead?</strong></td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">4</div></td>
-              <td valign="top" style="padding: 8px 0;">Choose <strong>Scan QR code</strong> and scan the code above</td>
-            </tr>
-            <tr>
-              <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #667eea; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">5</div></td>
-              <td valign="top" style="padding: 8px 0;">After installation, keep the eSIM <strong>turned off</strong> until you arrive</td>
-            </tr>
+          <h4>🤖 ${m.androidTitle}</h4>
+          <table border="0" cellpadding="0" cellspacing="0" width="100%">${buildStepRows(m.androidSteps, '#667eea')}
           </table>
         </div>
       </div>
-      
-      <div class="platform" style="background: #fffbeb; border-left-color: #f59e0b; margin-top: 20px;">
-        <h4 style="color: #92400e;">🔌 How to Activate</h4>
-        <table border="0" cellpadding="0" cellspacing="0" width="100%">
-          <tr>
-            <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #f59e0b; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">1</div></td>
-            <td valign="top" style="padding: 8px 0;">When you arrive at your destination, go to <strong>Settings → Cellular/Mobile</strong></td>
-          </tr>
-          <tr>
-            <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #f59e0b; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">2</div></td>
-            <td valign="top" style="padding: 8px 0;">Select your eSIM and <strong>turn it on</strong></td>
-          </tr>
-          <tr>
-            <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #f59e0b; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">3</div></td>
-            <td valign="top" style="padding: 8px 0;">Enable <strong>Data Roaming</strong> for the eSIM</td>
-          </tr>
-          <tr>
-            <td width="40" valign="top" style="padding: 8px 0;"><div style="background: #f59e0b; color: white; width: 24px; height: 24px; border-radius: 50%; text-align: center; line-height: 24px; font-weight: bold; font-size: 14px;">4</div></td>
-            <td valign="top" style="padding: 8px 0;">If no connection appears, toggle <strong>Airplane Mode</strong> on/off or restart your phone</td>
-          </tr>
+
+      <div class="platform" style="background: #fffbeb; border-${start}-color: #f59e0b; margin-top: 20px;">
+        <h4 style="color: #92400e;">🔌 ${m.activateTitle}</h4>
+        <table border="0" cellpadding="0" cellspacing="0" width="100%">${buildStepRows(m.activateSteps, '#f59e0b')}
         </table>
       </div>
 
       <div style="background: linear-gradient(135deg, #e0f2fe 0%, #dbeafe 100%); padding: 25px; border-radius: 12px; margin: 25px 0; border: 2px solid #3b82f6;">
-        <h2 style="color: #1e40af; margin: 0 0 15px 0; font-size: 20px;">📊 After Activation: Monitor Your Data</h2>
-        <p style="color: #1e3a8a; margin: 0 0 20px 0; font-size: 15px;">Once your eSIM is active, track your data usage in real-time and check remaining balance.</p>
+        <h2 style="color: #1e40af; margin: 0 0 15px 0; font-size: 20px;">📊 ${m.monitorTitle}</h2>
+        <p style="color: #1e3a8a; margin: 0 0 20px 0; font-size: 15px;">${m.monitorBody}</p>
         <table border="0" cellpadding="0" cellspacing="0" style="margin: 0 auto;">
           <tr>
             <td align="center" bgcolor="#3b82f6" style="border-radius: 8px; padding: 14px 28px; box-shadow: 0 4px 6px rgba(59, 130, 246, 0.3);">
-              <a href="https://fluxyfi.com/pages/my-esim-usage?iccid=${esimPayload.iccid}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
-                📈 View My Usage Dashboard
+              <a href="${usageUrl}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
+                📈 ${m.monitorButton}
               </a>
             </td>
           </tr>
         </table>
         <p style="color: #64748b; margin: 15px 0 0 0; font-size: 13px; text-align: center;">
-          <em>Check your remaining data, usage history, and validity period</em>
+          <em>${m.monitorHint}</em>
         </p>
       </div>
 
       <div class="manual-codes">
-        <h3>⌨️ Manual Installation (if QR scan doesn't work)</h3>
-        <p>Enter these details manually in your eSIM settings:</p>
-        <p><strong>SM-DP+ Address:</strong></p>
-        <div class="code-box">${smdpAddress}</div>
-        <p><strong>Activation Code:</strong></p>
-        <div class="code-box">${esimPayload.activationCode}</div>
-        <p><strong>ICCID:</strong></p>
-        <div class="code-box">${esimPayload.iccid}</div>
+        <h3>⌨️ ${m.manualTitle}</h3>
+        <p>${m.manualBody}</p>
+        ${
+          smdpAddress
+            ? `<p><strong>${m.smdpLabel}:</strong></p>
+        <div class="code-box" dir="ltr">${smdpAddress}</div>`
+            : ''
+        }
+        <p><strong>${m.activationCodeLabel}:</strong></p>
+        <div class="code-box" dir="ltr">${activationCode}</div>
+        <p><strong>${m.iccidLabel}:</strong></p>
+        <div class="code-box" dir="ltr">${esimPayload.iccid}</div>
       </div>
     </div>
-    
+
     <div class="footer">
-      <p>Need help? Reply to this email or contact our support team.</p>
-      <p>© ${new Date().getFullYear()} Fluxify. All rights reserved.</p>
+      <p>${branding.supportEmail ? format(m.helpWithEmail, { supportEmail: `<a href="mailto:${branding.supportEmail}">${branding.supportEmail}</a>` }) : m.help}</p>
+      <p>© ${new Date().getFullYear()} ${branding.brandName}. ${m.rights}</p>
     </div>
   </div>
 </body>
@@ -601,57 +705,55 @@ function buildEmailHtml(data: DeliveryEmailData): string {
  */
 function buildEmailText(data: DeliveryEmailData): string {
   const { orderNumber, productName, esimPayload, region, dataAmount, validity } = data;
-  const productTitle = productName || 'Your eSIM';
-  const smdpAddress = parseSmdpFromLpa(esimPayload.lpa);
+  const m = getMessages(data.locale ?? DEFAULT_LOCALE);
+  const productTitle = productName || m.defaultProductTitle;
+  const { smdpAddress, activationCode, links } = getInstallDetails(esimPayload);
+  const unitLabel = formatUnitLabel(data, m);
+  const branding = data.branding || getDefaultBranding();
+  const usageUrl = buildUsageUrl(data);
+  const steps = (list: string[]) => list.map((step, i) => `${i + 1}. ${toPlain(step)}`).join('\n');
 
   return `
-🎉 Your eSIM is Ready!
-Order ${orderNumber}
-
-Thank you for your purchase! Your ${productTitle} eSIM is ready to install.
+🎉 ${m.title}
+${format(m.order, { orderNumber })}${unitLabel ? ` - ${unitLabel}` : ''}
 
-📱 eSIM DETAILS
-${region ? `Region: ${region}` : ''}
-${dataAmount ? `Data: ${dataAmount}` : ''}
-${validity ? `Validity: ${validity}` : ''}
+${toPlain(format(m.thanks, { productTitle }))}
+${unitLabel ? `${toPlain(format(m.unitNotice, { unitLabel }))}\n` : ''}
+📱 ${m.detailsTitle}
+${region ? `${m.region}: ${region}` : ''}
+${dataAmount ? `${m.data}: ${dataAmount}` : ''}
+${validity ? `${m.validity}: ${validity}` : ''}
 
-� TRACK YOUR DATA USAGE
-Monitor your eSIM data usage in real-time:
-https://fluxyfi.com/pages/my-esim-usage?iccid=${esimPayload.iccid}
+📊 ${m.monitorTitle}
+${m.monitorBody}
+${usageUrl}
 
-Check your remaining data, usage history, and validity period.
+${m.monitorHint}
 
-�📲 INSTALLATION
-Scan the QR code attached to this email, or use the manual details below.
+📲 ${m.installTitle}
+${m.textInstall}
+${data.deliveryPageUrl ? `${format(m.textViewOnline, { url: data.deliveryPageUrl })}\n` : ''}${links ? `\n${m.textInstallLinks}\niPhone: ${links.ios}\nAndroid: ${links.android}\n` : ''}
+⌨️ ${m.manualTitle}
+${smdpAddress ? `${m.smdpLabel}: ${smdpAddress}\n` : ''}${m.activationCodeLabel}: ${activationCode}
+${m.iccidLabel}: ${esimPayload.iccid}
 
-⌨️ MANUAL INSTALLATION
-SM-DP+ Address: ${smdpAddress}
-Activation Code: ${esimPayload.activationCode}
-ICCID: ${esimPayload.iccid}
+📖 ${m.howToInstall}
 
-📖 INSTRUCTIONS
+${m.iphoneTitle}:
+${steps(m.iphoneSteps)}
 
-iPhone (iOS 17.4+):
-1. Go to Settings → Cellular → Add eSIM
-2. Tap "Use QR Code" and scan
-3. Follow prompts to complete installation
-4. Enable when you arrive at destination
+${m.androidTitle}:
+${steps(m.androidSteps)}
 
-Android:
-1. Go to Settings → Network & Internet → SIMs → Add eSIM
-2. Choose "Scan QR code"
-3. Scan and confirm installation
-4. Enable when ready to use
+🔌 ${m.activateTitle}
+${steps(m.activateSteps)}
 
-⚠️ IMPORTANT
-- Install BEFORE you travel (requires internet)
-- Each eSIM can only be installed ONCE
-- Don't delete after installation
-- Turn on the eSIM when you arrive
+⚠️ ${m.warningTitle}
+${m.warnings.map((warning) => `- ${toPlain(warning)}`).join('\n')}
 
-Need help? Reply to this email.
+${branding.supportEmail ? format(m.helpWithEmail, { supportEmail: branding.supportEmail }) : m.help}
 
-© ${new Date().getFullYear()} Fluxify
+© ${new Date().getFullYear()} ${branding.brandName}. ${m.rights}
 `;
 }
 
@@ -662,8 +764,13 @@ export async function sendDeliveryEmail(
   data: DeliveryEmailData,
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const { to, orderNumber, esimPayload } = data;
+  const m = getMessages(data.locale ?? DEFAULT_LOCALE);
+  const unitLabel = formatUnitLabel(data, m);
+  const fileSuffix = unitLabel ? `-${(data.unitIndex ?? 0) + 1}` : '';
 
-  console.log(`[EmailService] Preparing delivery email for order ${orderNumber} to ${to}`);
+  console.log(
+    `[EmailService] Preparing ${data.locale ?? DEFAULT_LOCALE} delivery email for order ${orderNumber} to ${to}`,
+  );
 
   try {
     // Generate QR code as base64 string for CID attachment
@@ -685,7 +792,7 @@ export async function sendDeliveryEmail(
     const textBody = buildEmailText(data);
     console.log(`[EmailService] Email content built`);
 
-    const fromEmail = process.env.EMAIL_FROM || 'orders@fluxyfi.com';
+    const { fromEmail, supportEmail } = data.branding || getDefaultBranding();
     const bccEmail = process.env.EMAIL_BCC;
     const resendApiKey = process.env.RESEND_API_KEY;
 
@@ -700,7 +807,8 @@ export async function sendDeliveryEmail(
       from: fromEmail,
       to: to,
       bcc: bccEmail,
-      subject: `Your eSIM is Ready! - Order ${orderNumber}`,
+      replyTo: supportEmail,
+      subject: `${format(m.subject, { orderNumber })}${unitLabel ? ` (${unitLabel})` : ''}`,
       html: htmlBody,
       text: textBody,
       attachments: [
@@ -710,7 +818,7 @@ export async function sendDeliveryEmail(
           contentId: 'qrcode',
         },
         {
-          filename: `eSIM-${orderNumber}.pdf`,
+          filename: `eSIM-${orderNumber}${fileSuffix}.pdf`,
           content: pdfBase64,
         },
       ],
@@ -737,13 +845,371 @@ export async function sendDeliveryEmail(
   }
 }
 
+export type UsageAlertKind = 'usage_80' | 'usage_100' | 'expiring';
+
+export interface UsageAlertEmailData {
+  to: string;
+  kind: UsageAlertKind;
+  orderNumber: string;
+  productName?: string;
+  usedMb: number;
+  totalMb: number;
+  endDate?: Date | null;
+  topUpUrl: string;
+  usageUrl: string;
+  unsubscribeUrl?: string;
+  branding?: ShopBranding;
+  locale?: Locale; // Same language as the delivery email, defaults to English
+}
+
+function formatMb(mb: number): string {
+  return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${Math.round(mb)} MB`;
+}
+
+/**
+ * Footer help line shared by the follow-up emails
+ */
+function formatHelp(m: Messages, branding: ShopBranding, html: boolean): string {
+  if (!branding.supportEmail) return m.help;
+  const supportEmail = html
+    ? `<a href="mailto:${branding.supportEmail}" style="color: #90cdf4;">${branding.supportEmail}</a>`
+    : branding.supportEmail;
+  return format(m.helpWithEmail, { supportEmail });
+}
+
+/**
+ * Subject and headline copy for a usage alert
+ */
+function getUsageAlertCopy(data: UsageAlertEmailData): { subject: string; message: string } {
+  const locale = data.locale ?? DEFAULT_LOCALE;
+  const m = getMessages(locale);
+  const vars = {
+    productTitle: data.productName || m.alertDefaultProduct,
+    orderNumber: data.orderNumber,
+    used: formatMb(data.usedMb),
+    total: formatMb(data.totalMb),
+    remaining: formatMb(Math.max(0, data.totalMb - data.usedMb)),
+  };
+
+  switch (data.kind) {
+    case 'usage_80':
+      return {
+        subject: format(m.alertUsage80Subject, vars),
+        message: format(m.alertUsage80Body, vars),
+      };
+    case 'usage_100':
+      return {
+        subject: format(m.alertUsage100Subject, vars),
+        message: format(m.alertUsage100Body, vars),
+      };
+    case 'expiring':
+      return {
+        subject: format(m.alertExpiringSubject, vars),
+        message: data.endDate
+          ? format(m.alertExpiringOnBody, {
+              ...vars,
+              date: data.endDate.toLocaleString(locale, {
+                dateStyle: 'medium',
+                timeStyle: 'long',
+                timeZone: 'UTC',
+                numberingSystem: 'latn',
+              }),
+            })
+          : format(m.alertExpiringSoonBody, vars),
+      };
+  }
+}
+
+function buildUsageAlertHtml(data: UsageAlertEmailData): string {
+  const branding = data.branding || getDefaultBranding();
+  const locale = data.locale ?? DEFAULT_LOCALE;
+  const m = getMessages(locale);
+  const dir = isRtl(locale) ? 'rtl' : 'ltr';
+  const { subject, message } = getUsageAlertCopy(data);
+
+  return `
+<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5;">
+  <div style="max-width: 600px; margin: 0 auto; background: white;" dir="${dir}">
+    <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
+      <h1 style="margin: 0; font-size: 22px;">${subject}</h1>
+    </div>
+    <div style="padding: 20px 30px;">
+      <p>${message}</p>
+      <table border="0" cellpadding="0" cellspacing="0" style="margin: 25px auto;">
+        <tr>
+          <td align="center" bgcolor="#667eea" style="border-radius: 8px; padding: 14px 28px;">
+            <a href="${data.topUpUrl}" target="_blank" style="color: #ffffff; text-decoration: none; font-weight: bold; font-size: 16px; display: inline-block;">
+              ➕ ${m.alertTopUp}
+            </a>
+          </td>
+        </tr>
+      </table>
+      <p style="text-align: center; font-size: 14px;"><a href="${data.usageUrl}" target="_blank" style="color: #3b82f6;">📈 ${m.viewUsage}</a></p>
+    </div>
+    <div style="background: #2d3748; color: #a0aec0; padding: 20px; text-align: center; font-size: 12px;">
+      <p>${formatHelp(m, branding, true)}</p>
+      ${data.unsubscribeUrl ? `<p><a href="${data.unsubscribeUrl}" style="color: #90cdf4;">${m.alertUnsubscribe}</a></p>` : ''}
+      <p>© ${new Date().getFullYear()} ${branding.brandName}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+function buildUsageAlertText(data: UsageAlertEmailData): string {
+  const branding = data.branding || getDefaultBranding();
+  const m = getMessages(data.locale ?? DEFAULT_LOCALE);
+  const { subject, message } = getUsageAlertCopy(data);
+
+  return `
+${subject}
+
+${message}
+
+${m.alertTopUp}: ${data.topUpUrl}
+${m.viewUsage}: ${data.usageUrl}
+
+${formatHelp(m, branding, false)}
+${data.unsubscribeUrl ? `\n${m.alertUnsubscribe}: ${data.unsubscribeUrl}\n` : ''}
+© ${new Date().getFullYear()} ${branding.brandName}
+`;
+}
+
+/**
+ * Send a low-balance or expiry alert
+ */
+export async function sendUsageAlertEmail(
+  data: UsageAlertEmailData,
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  console.log(
+    `[EmailService] Sending ${data.locale ?? DEFAULT_LOCALE} ${data.kind} alert for order ${data.orderNumber}`,
+  );
+
+  try {
+    const { fromEmail, supportEmail } = data.branding || getDefaultBranding();
+    const resendApiKey = process.env.RESEND_API_KEY;
+
+    if (!resendApiKey) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const resend = new Resend(resendApiKey);
+    const result = await resend.emails.send({
+      from: fromEmail,
+      to: data.to,
+      replyTo: supportEmail,
+      subject: getUsageAlertCopy(data).subject,
+      html: buildUsageAlertHtml(data),
+      text: buildUsageAlertText(data),
+      // One-click unsubscribe (RFC 8058) for mail clients that support it
+      headers: data.unsubscribeUrl
+        ? {
+            'List-Unsubscribe': `<${data.unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          }
+        : undefined,
+    });
+
+    if (result.error) {
+      throw new Error(`Resend error: ${result.error.message}`);
+    }
+
+    console.log(`[EmailService] ✅ Alert sent via Resend: ${result.data?.id}`);
+    return { success: true, messageId: result.data?.id };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[EmailService] ❌ Failed to send alert:`, errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
+export interface RenewalEmailData {
+  to: string;
+  orderNumber: string;
+  productName?: string;
+  iccid: string;
+  dataAmount?: string;
+  validity?: string;
+  usageUrl: string;
+  branding?: ShopBranding;
+  locale?: Locale; // Same language as the delivery email, defaults to English
+}
+
+function buildRenewalHtml(data: RenewalEmailData): string {
+  const branding = data.branding || getDefaultBranding();
+  const locale = data.locale ?? DEFAULT_LOCALE;
+  const m = getMessages(locale);
+  const dir = isRtl(locale) ? 'rtl' : 'ltr';
+  const start = dir === 'rtl' ? 'right' : 'left';
+  const productTitle = data.productName || m.renewalDefaultProduct;
+
+  return `
+<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${m.renewalTitle}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5;">
+  <div style="max-width: 600px; margin: 0 auto; background: white;" dir="${dir}">
+    <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 20px; text-align: center;">
+      <h1 style="margin: 0; font-size: 22px;">✅ ${m.renewalTitle}</h1>
+      <p style="margin: 5px 0 0 0; opacity: 0.9;">${format(m.order, { orderNumber: data.orderNumber })}</p>
+    </div>
+    <div style="padding: 20px 30px;">
+      <p>${toHtml(format(m.renewalAdded, { productTitle }))}</p>
+      <ul style="padding-${start}: 20px;">
+        <li>${m.iccidLabel}: <code>${data.iccid}</code></li>
+        ${data.dataAmount ? `<li>${m.data}: ${data.dataAmount}</li>` : ''}
+        ${data.validity ? `<li>${m.validity}: ${data.validity}</li>` : ''}
+      </ul>
+      <p>${toHtml(m.renewalNothingToInstall)}</p>
+      <p style="text-align: center; font-size: 14px;"><a href="${data.usageUrl}" target="_blank" style="color: #3b82f6;">📈 ${m.viewUsage}</a></p>
+    </div>
+    <div style="background: #2d3748; color: #a0aec0; padding: 20px; text-align: center; font-size: 12px;">
+      <p>${formatHelp(m, branding, true)}</p>
+      <p>© ${new Date().getFullYear()} ${branding.brandName}</p>
+    </div>
+  </div>
+</body>
+</html>
+`;
+}
+
+function buildRenewalText(data: RenewalEmailData): string {
+  const branding = data.branding || getDefaultBranding();
+  const m = getMessages(data.locale ?? DEFAULT_LOCALE);
+  const productTitle = data.productName || m.renewalDefaultProduct;
+
+  return `
+${format(m.renewalSubject, { orderNumber: data.orderNumber })}
+
+${toPlain(format(m.renewalAdded, { productTitle }))}
+
+${m.iccidLabel}: ${data.iccid}
+${data.dataAmount ? `${m.data}: ${data.dataAmount}\n` : ''}${data.validity ? `${m.validity}: ${data.validity}\n` : ''}
+${toPlain(m.renewalNothingToInstall)}
+
+${m.viewUsage}: ${data.usageUrl}
+
+${formatHelp(m, branding, false)}
+
+© ${new Date().getFullYear()} ${branding.brandName}
+`;
+}
+
+/**
+ * Send a top-up confirmation for a renewed eSIM (no QR code - nothing to install)
+ */
+export async function sendRenewalEmail(
+  data: RenewalEmailData,
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  console.log(`[EmailService] Sending renewal confirmation for order ${data.orderNumber}`);
+
+  try {
+    const { fromEmail, supportEmail } = data.branding || getDefaultBranding();
+    const resendApiKey = process.env.RESEND_API_KEY;
+
+    if (!resendApiKey) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const resend = new Resend(resendApiKey);
+    const result = await resend.emails.send({
+      from: fromEmail,
+      to: data.to,
+      replyTo: supportEmail,
+      subject: format(getMessages(data.locale ?? DEFAULT_LOCALE).renewalSubject, {
+        orderNumber: data.orderNumber,
+      }),
+      html: buildRenewalHtml(data),
+      text: buildRenewalText(data),
+    });
+
+    if (result.error) {
+      throw new Error(`Resend error: ${result.error.message}`);
+    }
+
+    console.log(`[EmailService] ✅ Renewal confirmation sent via Resend: ${result.data?.id}`);
+    return { success: true, messageId: result.data?.id };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[EmailService] ❌ Failed to send renewal confirmation:`, errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
+export interface OperatorAlertData {
+  subject: string;
+  details: Record<string, string | number | boolean | null | undefined>;
+}
+
+/**
+ * Plain-text alert to the operators (OPS_ALERT_EMAIL, comma-separated), e.g. for a dead-lettered job
+ */
+export async function sendOperatorAlertEmail(
+  data: OperatorAlertData,
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  const recipients = (process.env.OPS_ALERT_EMAIL || '')
+    .split(',')
+    .map((email) => email.trim())
+    .filter(Boolean);
+
+  if (recipients.length === 0) {
+    console.warn(
+      `[EmailService] OPS_ALERT_EMAIL not set - operator alert not sent: ${data.subject}`,
+    );
+    return { success: false, error: 'OPS_ALERT_EMAIL is not configured' };
+  }
+
+  try {
+    const resendApiKey = process.env.RESEND_API_KEY;
+
+    if (!resendApiKey) {
+      throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const lines = Object.entries(data.details)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => `${key}: ${String(value)}`);
+
+    const resend = new Resend(resendApiKey);
+    const result = await resend.emails.send({
+      from: getDefaultBranding().fromEmail,
+      to: recipients,
+      subject: `[Ops] ${data.subject}`,
+      text: `${data.subject}\n\n${lines.join('\n')}\n`,
+    });
+
+    if (result.error) {
+      throw new Error(`Resend error: ${result.error.message}`);
+    }
+
+    console.log(`[EmailService] ✅ Operator alert sent via Resend: ${result.data?.id}`);
+    return { success: true, messageId: result.data?.id };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error(`[EmailService] ❌ Failed to send operator alert:`, errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
 /**
- * Record email delivery attempt in database
+ * Record a delivery attempt (email send or retrieval page view) in database
  */
 export async function recordDeliveryAttempt(
   prisma: PrismaClient,
   deliveryId: string,
-  channel: 'email',
+  channel: 'email' | 'email_resend' | 'web',
   result: string,
 ): Promise<void> {
   await prisma.deliveryAttempt.create({
@@ -0,0 +1,112 @@
+/**
+ * eSIM Lookup Service
+ * Resolves ICCIDs and vendor order numbers via indexed keyed hashes, so lookups
+ * never need to decrypt every delivery payload
+ */
+import prisma from '../db/prisma';
+import { decrypt, lookupHash } from '../utils/crypto';
+
+const BACKFILL_BATCH_SIZE = 200;
+
+export function hashIccid(iccid: string): string {
+  return lookupHash(iccid.replace(/\s+/g, '').toUpperCase());
+}
+
+export function hashVendorOrder(orderNum: string): string {
+  return lookupHash(orderNum.trim());
+}
+
+/**
+ * Find the delivered eSIM with this ICCID
+ */
+export async function findDeliveryByIccid(iccid: string) {
+  return prisma.esimDelivery.findFirst({
+    where: { iccidHash: hashIccid(iccid), status: 'delivered' },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Find the delivered eSIM a bare-ICCID usage link was emailed for. Only eSIMs delivered
+ * before signed usage links have one, so newer ICCIDs can't be looked up this way.
+ */
+export async function findLegacyLinkDelivery(iccid: string) {
+  return prisma.esimDelivery.findFirst({
+    where: { iccidHash: hashIccid(iccid), status: 'delivered', legacyLinkUntil: { not: null } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Whether two deliveries were bought by the same customer: same Shopify customer id,
+ * or else the same email ignoring case. Guards renewals, which expose the target's usage link.
+ */
+export function isSameCustomer(
+  a: { customerId: string | null; customerEmail: string | null },
+  b: { customerId: string | null; customerEmail: string | null },
+): boolean {
+  if (a.customerId && b.customerId && a.customerId === b.customerId) return true;
+  return (
+    !!a.customerEmail &&
+    !!b.customerEmail &&
+    a.customerEmail.trim().toLowerCase() === b.customerEmail.trim().toLowerCase()
+  );
+}
+
+/**
+ * Fill iccidHash/vendorOrderHash for deliveries provisioned before the columns existed.
+ * Walks by id so rows whose payload has no ICCID are visited once.
+ */
+export async function backfillLookupHashes(): Promise<{ scanned: number; updated: number }> {
+  let cursor: string | undefined;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const deliveries = await prisma.esimDelivery.findMany({
+      where: {
+        OR: [
+          { iccidHash: null, payloadEncrypted: { not: null } },
+          { vendorOrderHash: null, vendorReferenceId: { not: null } },
+        ],
+      },
+      select: {
+        id: true,
+        payloadEncrypted: true,
+        vendorReferenceId: true,
+        iccidHash: true,
+        vendorOrderHash: true,
+      },
+      orderBy: { id: 'asc' },
+      take: BACKFILL_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (deliveries.length === 0) break;
+
+    for (const delivery of deliveries) {
+      const data: { iccidHash?: string; vendorOrderHash?: string } = {};
+
+      if (!delivery.iccidHash && delivery.payloadEncrypted) {
+        try {
+          const { iccid } = JSON.parse(decrypt(delivery.payloadEncrypted)) as { iccid?: string };
+          if (iccid) data.iccidHash = hashIccid(iccid);
+        } catch (error) {
+          console.warn(`[LookupBackfill] Could not decrypt payload of delivery ${delivery.id}`);
+        }
+      }
+      if (!delivery.vendorOrderHash && delivery.vendorReferenceId) {
+        data.vendorOrderHash = hashVendorOrder(delivery.vendorReferenceId);
+      }
+
+      if (Object.keys(data).length > 0) {
+        await prisma.esimDelivery.update({ where: { id: delivery.id }, data });
+        updated++;
+      }
+    }
+
+    scanned += deliveries.length;
+    cursor = deliveries[deliveries.length - 1].id;
+  }
+
+  return { scanned, updated };
+}
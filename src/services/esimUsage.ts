@@ -0,0 +1,192 @@
+/**
+ * eSIM Usage Service
+ * Live usage queries against the eSIM's provider, the UsageSnapshot history behind the storefront chart,
+ * and the polling that drives low-balance and expiry alerts
+ */
+import prisma from '../db/prisma';
+import { decrypt } from '../utils/crypto';
+import { getProviderForDelivery } from '../vendor/providers';
+import type { ProviderUsageResult } from '../vendor/esimProvider';
+import { checkUsageAlerts } from './usageAlerts';
+
+// Stop polling eSIMs whose package ended this long ago
+const POLL_GRACE_MS = 2 * 24 * 60 * 60 * 1000;
+// Never-activated eSIMs are polled for at most this long after delivery
+const POLL_MAX_AGE_MS = 180 * 24 * 60 * 60 * 1000;
+const POLL_BATCH_SIZE = 100;
+// Between vendor calls, so a poll never bursts the vendor API
+const POLL_DELAY_MS = Number(process.env.USAGE_POLL_DELAY_MS || 250);
+// Kept under the poll-usage job's 15 minute expiry; the rest goes to a follow-up job
+const POLL_TIME_BUDGET_MS = 12 * 60 * 1000;
+
+export interface DailyUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  usedMb: number; // Cumulative usage at the last snapshot of the day
+  consumedMb: number; // Used during the day
+}
+
+/**
+ * Query the delivery's provider for the current usage of one ICCID
+ */
+export async function queryEsimUsage(
+  delivery: { provider: string | null; sku: string | null },
+  iccid: string,
+): Promise<ProviderUsageResult> {
+  const provider = await getProviderForDelivery(delivery);
+  return provider.queryUsage({ iccid });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseVendorDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Record a UsageSnapshot for every delivered eSIM that may still be in use.
+ * Walks deliveries by id in batches, starting after `after`, and paces the vendor calls.
+ * A run that reaches its time budget stops and returns the id to resume after.
+ */
+export async function pollActiveUsage(options: { after?: string } = {}): Promise<{
+  polled: number;
+  recorded: number;
+  resumeAfter: string | null;
+}> {
+  const now = Date.now();
+  const since = new Date(now - POLL_MAX_AGE_MS);
+
+  // A renewal tops up an older eSIM, which is then polled again from the renewal on
+  const renewals = await prisma.esimDelivery.findMany({
+    where: { renewalOf: { not: null }, status: 'delivered', createdAt: { gte: since } },
+    select: { renewalOf: true, createdAt: true },
+  });
+  const renewedAt = new Map<string, number>();
+  for (const renewal of renewals) {
+    const targetId = renewal.renewalOf as string;
+    renewedAt.set(targetId, Math.max(renewedAt.get(targetId) || 0, renewal.createdAt.getTime()));
+  }
+
+  let cursor = options.after;
+  let polled = 0;
+  let recorded = 0;
+
+  for (;;) {
+    const deliveries = await prisma.esimDelivery.findMany({
+      where: {
+        status: 'delivered',
+        payloadEncrypted: { not: null },
+        OR: [{ createdAt: { gte: since } }, { id: { in: [...renewedAt.keys()] } }],
+      },
+      select: {
+        id: true,
+        provider: true,
+        sku: true,
+        payloadEncrypted: true,
+        usageSnapshots: {
+          orderBy: { capturedAt: 'desc' },
+          take: 1,
+          select: { endDate: true, capturedAt: true },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: POLL_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (deliveries.length === 0) break;
+
+    for (const delivery of deliveries) {
+      if (cursor && Date.now() - now > POLL_TIME_BUDGET_MS) {
+        return { polled, recorded, resumeAfter: cursor };
+      }
+      cursor = delivery.id;
+
+      const lastSnapshot = delivery.usageSnapshots[0];
+      const renewedSinceSnapshot =
+        !!lastSnapshot && (renewedAt.get(delivery.id) || 0) > lastSnapshot.capturedAt.getTime();
+      if (
+        lastSnapshot?.endDate &&
+        lastSnapshot.endDate.getTime() + POLL_GRACE_MS < now &&
+        !renewedSinceSnapshot
+      ) {
+        continue;
+      }
+
+      try {
+        const { iccid } = JSON.parse(decrypt(delivery.payloadEncrypted as string)) as {
+          iccid?: string;
+        };
+        if (!iccid) continue;
+
+        // Spread the calls out instead of bursting the vendor API
+        if (polled > 0) await sleep(POLL_DELAY_MS);
+        polled++;
+
+        const result = await queryEsimUsage(delivery, iccid);
+        if (!result.success) {
+          console.warn(`[UsagePoll] No usage for delivery ${delivery.id}: ${result.error}`);
+          continue;
+        }
+
+        const snapshot = await prisma.usageSnapshot.create({
+          data: {
+            deliveryId: delivery.id,
+            usedMb: result.usage.usedMb,
+            totalMb: result.usage.totalMb,
+            status: result.usage.status == null ? null : String(result.usage.status),
+            beginDate: parseVendorDate(result.usage.beginDate),
+            endDate: parseVendorDate(result.usage.endDate),
+          },
+        });
+        recorded++;
+
+        await checkUsageAlerts(delivery.id, iccid, snapshot);
+      } catch (error) {
+        // One unreadable payload or vendor error shouldn't stop the rest of the poll
+        console.error(`[UsagePoll] Failed to poll delivery ${delivery.id}:`, error);
+      }
+    }
+  }
+
+  return { polled, recorded, resumeAfter: null };
+}
+
+/**
+ * Daily consumption from snapshots, oldest first
+ */
+export async function getDailyUsage(deliveryId: string, days: number): Promise<DailyUsage[]> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const snapshots = await prisma.usageSnapshot.findMany({
+    where: { deliveryId, capturedAt: { gte: since } },
+    orderBy: { capturedAt: 'asc' },
+    select: { usedMb: true, capturedAt: true },
+  });
+
+  // Usage before the window, so the first day isn't reported as all usage to date
+  const baseline = await prisma.usageSnapshot.findFirst({
+    where: { deliveryId, capturedAt: { lt: since } },
+    orderBy: { capturedAt: 'desc' },
+    select: { usedMb: true },
+  });
+
+  // Last snapshot of each day carries that day's cumulative usage
+  const usedByDay = new Map<string, number>();
+  for (const snapshot of snapshots) {
+    usedByDay.set(snapshot.capturedAt.toISOString().slice(0, 10), snapshot.usedMb);
+  }
+
+  const history: DailyUsage[] = [];
+  let previousUsedMb = baseline?.usedMb ?? 0;
+  for (const [date, usedMb] of usedByDay) {
+    // A package renewal resets usedMb, so never report negative consumption
+    const consumedMb = Math.max(0, usedMb - previousUsedMb);
+    history.push({ date, usedMb, consumedMb: Math.round(consumedMb * 100) / 100 });
+    previousUsedMb = usedMb;
+  }
+
+  return history;
+}
@@ -0,0 +1,83 @@
+/**
+ * Line Item Classifier
+ * Decides at ingest whether a Shopify line item is an eSIM we provision
+ */
+import prisma from '../db/prisma';
+import { getShopifyClientForShop } from '../shopify/client';
+
+export interface ClassifiableLineItem {
+  variant_id?: number | null;
+  sku?: string | null;
+  gift_card?: boolean;
+}
+
+export interface LineItemClassification {
+  isEsim: boolean;
+  reason: string;
+}
+
+interface VariantMetafield {
+  namespace: string;
+  key: string;
+  value: string;
+}
+
+/**
+ * Variant metafields that mark a product as an eSIM (see docs/QUICKSTART.md)
+ */
+function hasEsimMetafield(metafields: VariantMetafield[]): boolean {
+  return metafields.some(
+    (field) =>
+      (field.namespace === 'delivery' && field.key === 'type' && field.value === 'qr') ||
+      (field.namespace === 'vendor' && field.key === 'planCode' && !!field.value),
+  );
+}
+
+/**
+ * Classify a line item as eSIM or not_applicable.
+ * A provider mapping for the SKU is authoritative; otherwise the variant metafields decide.
+ * Gift cards, tips and custom items without a variant are never eSIMs.
+ */
+export async function classifyLineItem(
+  shopDomain: string,
+  lineItem: ClassifiableLineItem,
+): Promise<LineItemClassification> {
+  if (lineItem.gift_card) {
+    return { isEsim: false, reason: 'gift card' };
+  }
+
+  if (lineItem.sku) {
+    // Inactive mappings still count - the job reports them so the mapping gets fixed
+    const mapping = await prisma.providerSkuMapping.findUnique({
+      where: { shopifySku: lineItem.sku },
+      select: { id: true },
+    });
+    if (mapping) {
+      return { isEsim: true, reason: 'provider mapping' };
+    }
+  }
+
+  if (!lineItem.variant_id) {
+    return { isEsim: false, reason: 'no variant' };
+  }
+
+  try {
+    const shopify = await getShopifyClientForShop(shopDomain);
+    const metafields = (await shopify.getVariantMetafields(
+      lineItem.variant_id.toString(),
+    )) as VariantMetafield[];
+
+    if (hasEsimMetafield(metafields)) {
+      return { isEsim: true, reason: 'variant metafield' };
+    }
+  } catch (error) {
+    // Can't tell - treat as eSIM so a real order fails loudly instead of being skipped
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(
+      `[Webhook] Failed to fetch metafields for variant ${lineItem.variant_id}: ${msg}`,
+    );
+    return { isEsim: true, reason: 'metafield lookup failed' };
+  }
+
+  return { isEsim: false, reason: 'no provider mapping or eSIM metafield' };
+}
@@ -0,0 +1,498 @@
+/**
+ * Shopify Webhook Topic Handlers
+ * Processes stored WebhookEvent payloads (see worker job process-webhook)
+ */
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { getJobQueue, transactionDb, RETRY_POLICIES } from '../queue/jobQueue';
+import { makeIdempotencyKey } from '../utils/idempotency';
+import { markShopUninstalled } from './shops';
+import { handleCustomersDataRequest, handleCustomersRedact, handleShopRedact } from './compliance';
+import { classifyLineItem, type LineItemClassification } from './lineItemClassifier';
+import { findDeliveryByIccid, isSameCustomer } from './esimLookup';
+
+interface ShopifyOrderPaidWebhook {
+  id: number;
+  name: string;
+  email: string;
+  contact_email?: string;
+  updated_at?: string;
+  customer_locale?: string | null; // Checkout language, e.g. 'fr' or 'pt-BR'
+  customer?: {
+    id: number;
+    email: string;
+    first_name: string;
+    last_name: string;
+    phone?: string;
+  };
+  billing_address?: {
+    email?: string;
+  };
+  line_items: Array<{
+    id: number;
+    variant_id: number | null; // null for tips and custom items
+    quantity: number;
+    product_id: number | null;
+    title: string;
+    name: string;
+    sku?: string;
+    gift_card?: boolean;
+    properties?: Array<{ name: string; value: string }>;
+  }>;
+}
+
+interface ShopifyOrderCancelledWebhook {
+  id: number;
+  name: string;
+  cancel_reason?: string | null;
+}
+
+interface ShopifyOrderUpdatedWebhook {
+  id: number;
+  name: string;
+  updated_at?: string;
+  email?: string | null;
+  contact_email?: string | null;
+  customer?: { email?: string | null } | null;
+}
+
+interface ShopifyRefundCreatedWebhook {
+  id: number;
+  order_id: number;
+  refund_line_items: Array<{
+    line_item_id: number;
+    quantity: number;
+  }>;
+}
+
+// eventId is the stored WebhookEvent being processed
+export type WebhookTopicHandler = (
+  payload: unknown,
+  shop: string,
+  eventId: string,
+) => Promise<void>;
+
+/**
+ * Where the order's eSIM emails go. Shared by orders/paid and orders/updated, so a version
+ * of the order that didn't touch the email never looks like an email change.
+ * The order email comes first: it is what the merchant corrects on the order.
+ */
+function resolveOrderEmail(webhook: {
+  email?: string | null;
+  contact_email?: string | null;
+  customer?: { email?: string | null } | null;
+}): string | null {
+  return (webhook.email || webhook.contact_email || webhook.customer?.email || '').trim() || null;
+}
+
+function parseOrderUpdatedAt(value?: string): Date | null {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+}
+
+// Deliveries that never reached the vendor can be cancelled first on partial refunds
+const UNPROVISIONED_STATUSES = ['pending', 'provisioning', 'failed'];
+
+/**
+ * Enqueue processing of a stored webhook event
+ */
+export async function enqueueWebhookEvent(eventId: string) {
+  const queue = getJobQueue();
+  await queue.send('process-webhook', { eventId }, RETRY_POLICIES['process-webhook']);
+}
+
+/**
+ * Claim deliveries for cancellation and enqueue a cancel-esim job for each.
+ * The cancellationRef marks a delivery as claimed so retried webhooks don't enqueue twice,
+ * so the claim and the jobs commit together - a failed send leaves nothing claimed.
+ */
+async function enqueueCancellations(deliveryIds: string[], cancellationRef: string) {
+  if (deliveryIds.length === 0) return;
+
+  const queue = getJobQueue();
+  await prisma.$transaction(async (tx) => {
+    await tx.esimDelivery.updateMany({
+      where: { id: { in: deliveryIds } },
+      data: { cancellationRef },
+    });
+
+    for (const deliveryId of deliveryIds) {
+      await queue.send(
+        'cancel-esim',
+        { deliveryId, cancellationRef },
+        { ...RETRY_POLICIES['cancel-esim'], db: transactionDb(tx) },
+      );
+    }
+  });
+}
+
+/**
+ * ICCID of the eSIM to top up, from an "ICCID" or hidden "_iccid" line item property
+ */
+function getRenewalIccid(lineItem: ShopifyOrderPaidWebhook['line_items'][number]) {
+  const property = lineItem.properties?.find(
+    (p) => p.name.replace(/^_/, '').toLowerCase() === 'iccid',
+  );
+  const iccid = property?.value?.replace(/\s+/g, '');
+  return iccid || null;
+}
+
+/**
+ * Resolve a renewal ICCID to the delivered eSIM it belongs to on this shop.
+ * Only the customer who bought that eSIM may top it up - anyone else who knows the ICCID
+ * would otherwise receive its usage link.
+ */
+async function findRenewalTarget(
+  shopDomain: string,
+  iccid: string,
+  buyer: { customerId: string | null; customerEmail: string | null },
+) {
+  const target = await findDeliveryByIccid(iccid);
+  return target && target.shop === shopDomain && isSameCustomer(target, buyer) ? target : null;
+}
+
+/**
+ * orders/paid - create one delivery per unit of quantity and enqueue provisioning.
+ * Line items carrying a target ICCID renew that eSIM instead of ordering a new one.
+ */
+export async function handleOrderPaid(payload: unknown, shopDomain: string) {
+  const webhook = payload as ShopifyOrderPaidWebhook;
+  const orderId = webhook.id.toString();
+  const orderName = webhook.name;
+
+  const customerEmail = resolveOrderEmail(webhook);
+  const orderUpdatedAt = parseOrderUpdatedAt(webhook.updated_at);
+
+  if (!customerEmail) {
+    throw new Error(
+      `No email found for order ${orderName}. Webhook payload: ${JSON.stringify({
+        email: webhook.email,
+        customer: webhook.customer,
+        contact_email: webhook.contact_email,
+        billing_address: webhook.billing_address?.email,
+      })}`,
+    );
+  }
+
+  const customerId = webhook.customer?.id ? String(webhook.customer.id) : null;
+
+  // Language of the delivery email; the shop default applies when the order has none
+  const locale = webhook.customer_locale || null;
+
+  console.log(`[Webhook] Processing orders/paid for ${orderName} (${orderId})`);
+
+  // Get job queue
+  const queue = getJobQueue();
+
+  // Process each line item - one delivery per unit of quantity
+  for (const lineItem of webhook.line_items) {
+    const lineItemId = lineItem.id.toString();
+    const variantId = lineItem.variant_id?.toString() || '';
+    const unitCount = Math.max(1, lineItem.quantity || 1);
+
+    // Classified lazily so replays of fully-ingested line items skip the lookups
+    let classification: LineItemClassification | null = null;
+    const renewalIccid = getRenewalIccid(lineItem);
+    let renewalOf: string | null | undefined;
+
+    for (let unitIndex = 0; unitIndex < unitCount; unitIndex++) {
+      const idempotencyKey = makeIdempotencyKey(orderId, lineItemId, unitIndex);
+      const unitLabel = `line item ${lineItemId} unit ${unitIndex + 1}/${unitCount}`;
+
+      // Fast path for replays; the unique index below is what actually guarantees idempotency
+      const existing = await prisma.esimDelivery.findUnique({ where: { idempotencyKey } });
+      if (existing) {
+        if (existing.status === 'not_applicable') break;
+        console.log(`[Webhook] Order ${orderName} ${unitLabel} already processed, skipping`);
+        continue;
+      }
+
+      classification ??= await classifyLineItem(shopDomain, lineItem);
+
+      try {
+        if (!classification.isEsim) {
+          // Record the line item once so it is visible, but never provision it
+          await prisma.esimDelivery.create({
+            data: {
+              shop: shopDomain,
+              orderId,
+              orderName,
+              lineItemId,
+              unitIndex,
+              unitCount,
+              idempotencyKey,
+              variantId,
+              sku: lineItem.sku || null,
+              customerEmail,
+              customerId,
+              orderEmail: customerEmail,
+              orderUpdatedAt,
+              status: 'not_applicable',
+              lastError: `Not an eSIM: ${classification.reason}`,
+            },
+          });
+
+          console.log(
+            `[Webhook] Line item ${lineItemId} (${lineItem.name}) on ${orderName} is not an eSIM (${classification.reason}), skipping`,
+          );
+          break;
+        }
+
+        if (renewalIccid) {
+          renewalOf ??=
+            (await findRenewalTarget(shopDomain, renewalIccid, { customerId, customerEmail }))
+              ?.id || null;
+
+          if (!renewalOf) {
+            // Don't silently order a new eSIM - the customer paid to top up a specific one
+            await prisma.esimDelivery.create({
+              data: {
+                shop: shopDomain,
+                orderId,
+                orderName,
+                lineItemId,
+                unitIndex,
+                unitCount,
+                idempotencyKey,
+                variantId,
+                sku: lineItem.sku || null,
+                customerEmail,
+                customerId,
+                orderEmail: customerEmail,
+                orderUpdatedAt,
+                locale,
+                status: 'failed',
+                lastError:
+                  'Renewal target not found: no delivered eSIM with that ICCID for this customer',
+              },
+            });
+
+            console.warn(
+              `[Webhook] Line item ${lineItemId} on ${orderName} renews an unknown ICCID, marked failed`,
+            );
+            continue;
+          }
+        }
+
+        // Delivery insert and job enqueue commit together - no pending delivery without a job
+        const delivery = await prisma.$transaction(async (tx) => {
+          const created = await tx.esimDelivery.create({
+            data: {
+              shop: shopDomain,
+              orderId,
+              orderName,
+              lineItemId,
+              unitIndex,
+              unitCount,
+              idempotencyKey,
+              variantId,
+              sku: lineItem.sku || null,
+              customerEmail,
+              customerId,
+              orderEmail: customerEmail,
+              orderUpdatedAt,
+              locale,
+              status: 'pending',
+              renewalOf: renewalOf || null,
+            },
+          });
+
+          await queue.send(
+            'provision-esim',
+            {
+              deliveryId: created.id,
+              orderId,
+              orderName,
+              lineItemId,
+              variantId,
+              customerEmail,
+              sku: lineItem.sku || null,
+            },
+            { ...RETRY_POLICIES['provision-esim'], db: transactionDb(tx) },
+          );
+
+          return created;
+        });
+
+        console.log(
+          `[Webhook] Created delivery ${delivery.id} and enqueued provisioning for ${orderName} ${unitLabel}`,
+        );
+      } catch (error) {
+        // A concurrent retry of the same webhook created this unit first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          console.log(`[Webhook] Order ${orderName} ${unitLabel} created concurrently, skipping`);
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * orders/cancelled - cancel every eSIM on the order with the vendor
+ */
+export async function handleOrderCancelled(payload: unknown) {
+  const webhook = payload as ShopifyOrderCancelledWebhook;
+  const orderId = webhook.id.toString();
+  const cancellationRef = `order:${orderId}`;
+
+  console.log(
+    `[Webhook] Processing orders/cancelled for ${webhook.name} (${orderId}), reason: ${webhook.cancel_reason || 'n/a'}`,
+  );
+
+  const deliveries = await prisma.esimDelivery.findMany({
+    where: { orderId, cancellationRef: null, status: { not: 'not_applicable' } },
+    select: { id: true },
+  });
+
+  await enqueueCancellations(
+    deliveries.map((d) => d.id),
+    cancellationRef,
+  );
+
+  console.log(
+    `[Webhook] Enqueued cancellation for ${deliveries.length} delivery(ies) on ${webhook.name}`,
+  );
+}
+
+/**
+ * refunds/create - cancel the refunded quantity of each line item with the vendor
+ */
+export async function handleRefundCreated(payload: unknown) {
+  const webhook = payload as ShopifyRefundCreatedWebhook;
+  const orderId = webhook.order_id.toString();
+  const cancellationRef = `refund:${webhook.id}`;
+
+  console.log(`[Webhook] Processing refunds/create ${webhook.id} for order ${orderId}`);
+
+  // A refund we have already acted on must not pick more units when replayed
+  const alreadyHandled = await prisma.esimDelivery.count({
+    where: { orderId, cancellationRef },
+  });
+  if (alreadyHandled > 0) {
+    console.log(`[Webhook] Refund ${webhook.id} already processed, skipping`);
+    return;
+  }
+
+  const deliveryIds: string[] = [];
+  for (const refundLine of webhook.refund_line_items || []) {
+    const candidates = await prisma.esimDelivery.findMany({
+      where: {
+        orderId,
+        lineItemId: refundLine.line_item_id.toString(),
+        cancellationRef: null,
+        status: { not: 'not_applicable' },
+      },
+      orderBy: { unitIndex: 'desc' },
+      select: { id: true, status: true },
+    });
+
+    // Prefer units that were never provisioned so no vendor order is wasted
+    candidates.sort(
+      (a, b) =>
+        Number(UNPROVISIONED_STATUSES.includes(b.status)) -
+        Number(UNPROVISIONED_STATUSES.includes(a.status)),
+    );
+
+    deliveryIds.push(...candidates.slice(0, refundLine.quantity).map((d) => d.id));
+  }
+
+  await enqueueCancellations(deliveryIds, cancellationRef);
+
+  console.log(
+    `[Webhook] Enqueued cancellation for ${deliveryIds.length} delivery(ies) on refund ${webhook.id}`,
+  );
+}
+
+/**
+ * orders/updated - follow a corrected order email and resend delivered eSIMs to it.
+ * Versions older than the one already applied are ignored, so a late webhook can't
+ * bring back an old address.
+ */
+export async function handleOrderUpdated(payload: unknown) {
+  const webhook = payload as ShopifyOrderUpdatedWebhook;
+  const orderId = webhook.id.toString();
+  const newEmail = resolveOrderEmail(webhook);
+  const updatedAt = parseOrderUpdatedAt(webhook.updated_at);
+
+  if (!newEmail) return;
+  if (!updatedAt) {
+    console.warn(`[Webhook] orders/updated for ${orderId} has no updated_at, ignoring`);
+    return;
+  }
+
+  const newerThanApplied: Prisma.EsimDeliveryWhereInput = {
+    OR: [{ orderUpdatedAt: null }, { orderUpdatedAt: { lt: updatedAt } }],
+  };
+
+  const deliveries = await prisma.esimDelivery.findMany({
+    where: {
+      orderId,
+      redactedAt: null,
+      status: { notIn: ['not_applicable', 'cancelled', 'refund_failed'] },
+      ...newerThanApplied,
+    },
+    select: { id: true, status: true, customerEmail: true, orderEmail: true },
+  });
+
+  const queue = getJobQueue();
+  let changed = 0;
+
+  for (const delivery of deliveries) {
+    // orders/updated fires for every edit (including our own fulfillment) - compare with the
+    // email of the previous order version, not with an address a resend may not have reached yet
+    const previousEmail = delivery.orderEmail ?? delivery.customerEmail;
+    const emailChanged = previousEmail?.toLowerCase() !== newEmail.toLowerCase();
+    const delivered = delivery.status === 'delivered';
+
+    // Undelivered units pick up the new address when their email job runs; delivered ones
+    // switch customerEmail only once the resend to the new address went out
+    const { count } = await prisma.esimDelivery.updateMany({
+      where: { id: delivery.id, ...newerThanApplied },
+      data: {
+        orderEmail: newEmail,
+        orderUpdatedAt: updatedAt,
+        ...(emailChanged && !delivered ? { customerEmail: newEmail } : {}),
+      },
+    });
+    if (count === 0 || !emailChanged) continue;
+
+    changed++;
+    if (delivered) {
+      await queue.send(
+        'resend-email',
+        { deliveryId: delivery.id, to: newEmail, reason: 'order email changed' },
+        RETRY_POLICIES['resend-email'],
+      );
+    }
+  }
+
+  if (changed > 0) {
+    console.log(
+      `[Webhook] Email changed on ${webhook.name} (${orderId}), updated ${changed} delivery(ies)`,
+    );
+  }
+}
+
+/**
+ * app/uninstalled - deactivate the shop so its token is no longer used
+ */
+export async function handleAppUninstalled(_payload: unknown, shopDomain: string) {
+  console.log(`[Webhook] Processing app/uninstalled for ${shopDomain}`);
+  await markShopUninstalled(shopDomain);
+}
+
+/**
+ * Handlers by Shopify webhook topic
+ */
+export const webhookTopicHandlers: Record<string, WebhookTopicHandler> = {
+  'orders/paid': handleOrderPaid,
+  'orders/cancelled': handleOrderCancelled,
+  'refunds/create': handleRefundCreated,
+  'orders/updated': handleOrderUpdated,
+  'app/uninstalled': handleAppUninstalled,
+  'customers/data_request': handleCustomersDataRequest,
+  'customers/redact': handleCustomersRedact,
+  'shop/redact': handleShopRedact,
+};
@@ -0,0 +1,136 @@
+/**
+ * Shop Service
+ * Per-shop credentials and branding for multi-storefront deployments
+ */
+import prisma from '../db/prisma';
+import { encrypt, decrypt } from '../utils/crypto';
+import { evictShopifyClient } from '../shopify/client';
+
+export interface ShopBranding {
+  brandName: string;
+  fromEmail: string;
+  supportEmail?: string;
+  storefrontUrl: string; // Base URL for customer-facing links, no trailing slash
+  locale: string; // Default language for customer emails, e.g. 'en'
+}
+
+const ORIGIN_CACHE_TTL_MS = 5 * 60 * 1000;
+let originCache: { origins: string[]; expiresAt: number } | null = null;
+
+/**
+ * Branding for the env-configured default shop
+ */
+export function getDefaultBranding(): ShopBranding {
+  return {
+    brandName: process.env.BRAND_NAME || 'Fluxify',
+    fromEmail: process.env.EMAIL_FROM || 'orders@fluxyfi.com',
+    supportEmail: process.env.SUPPORT_EMAIL,
+    storefrontUrl: process.env.STOREFRONT_URL || 'https://fluxyfi.com',
+    locale: process.env.DEFAULT_LOCALE || 'en',
+  };
+}
+
+/**
+ * Branding for a shop, falling back to the default branding for anything not configured
+ */
+export async function getShopBranding(shopDomain?: string | null): Promise<ShopBranding> {
+  const defaults = getDefaultBranding();
+  if (!shopDomain) return defaults;
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop) return defaults;
+
+  return {
+    brandName: shop.brandName || defaults.brandName,
+    fromEmail: shop.emailFrom || defaults.fromEmail,
+    supportEmail: shop.supportEmail || defaults.supportEmail,
+    storefrontUrl: (shop.storefrontUrl || defaults.storefrontUrl).replace(/\/+$/, ''),
+    locale: shop.locale || defaults.locale,
+  };
+}
+
+/**
+ * Secret used to verify webhook HMACs for a shop.
+ * Custom-app shops have their own secret; everything else is signed with the app secret.
+ */
+export async function getShopWebhookSecret(
+  shopDomain?: string | null,
+): Promise<string | undefined> {
+  if (shopDomain) {
+    const shop = await prisma.shop.findUnique({
+      where: { domain: shopDomain },
+      select: { webhookSecretEncrypted: true },
+    });
+    if (shop?.webhookSecretEncrypted) {
+      return decrypt(shop.webhookSecretEncrypted);
+    }
+  }
+
+  return process.env.SHOPIFY_WEBHOOK_SECRET;
+}
+
+/**
+ * Store the offline access token from a completed OAuth install
+ */
+export async function saveInstalledShop(shopDomain: string, accessToken: string, scopes: string) {
+  const accessTokenEncrypted = encrypt(accessToken);
+
+  const shop = await prisma.shop.upsert({
+    where: { domain: shopDomain },
+    create: { domain: shopDomain, accessTokenEncrypted, scopes },
+    update: {
+      accessTokenEncrypted,
+      scopes,
+      isActive: true,
+      installedAt: new Date(),
+      uninstalledAt: null,
+    },
+  });
+
+  evictShopifyClient(shopDomain);
+  originCache = null;
+
+  return shop;
+}
+
+/**
+ * Deactivate a shop and discard its access token (app/uninstalled webhook)
+ */
+export async function markShopUninstalled(shopDomain: string) {
+  await prisma.shop.updateMany({
+    where: { domain: shopDomain },
+    data: { isActive: false, accessTokenEncrypted: null, uninstalledAt: new Date() },
+  });
+
+  evictShopifyClient(shopDomain);
+  originCache = null;
+}
+
+/**
+ * Storefront origins of all active shops, for CORS on the customer-facing APIs
+ */
+export async function getShopStorefrontOrigins(): Promise<string[]> {
+  if (originCache && originCache.expiresAt > Date.now()) {
+    return originCache.origins;
+  }
+
+  const shops = await prisma.shop.findMany({
+    where: { isActive: true },
+    select: { domain: true, storefrontUrl: true },
+  });
+
+  const origins = shops.flatMap((shop) => {
+    const list = [`https://${shop.domain}`];
+    if (shop.storefrontUrl) {
+      try {
+        list.push(new URL(shop.storefrontUrl).origin);
+      } catch {
+        // Ignore malformed storefront URLs
+      }
+    }
+    return list;
+  });
+
+  originCache = { origins, expiresAt: Date.now() + ORIGIN_CACHE_TTL_MS };
+  return origins;
+}
@@ -0,0 +1,282 @@
+/**
+ * SKU Mapping Service
+ * Validation, diff and bulk import/export for ProviderSkuMapping
+ */
+import { z } from 'zod';
+import type { ProviderSkuMapping } from '@prisma/client';
+import prisma from '../db/prisma';
+import { toCsv } from '../utils/csv';
+
+// Column order for CSV import/export
+export const MAPPING_FIELDS = [
+  'shopifySku',
+  'provider',
+  'providerSku',
+  'packageType',
+  'daysCount',
+  'name',
+  'region',
+  'dataAmount',
+  'validity',
+  'isActive',
+] as const;
+
+// FiRoam providerSku: "skuId:apiCode:priceId", e.g. "120:826-0-?-1-G-D:14094"
+const FIROAM_PROVIDER_SKU = /^(\d+):([^:]+):(\d+)$/;
+
+// What a blank import column means (packageType matches the column default)
+const DEFAULT_PROVIDER = 'firoam';
+const DEFAULT_PACKAGE_TYPE = 'fixed';
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const optionalText = z.preprocess(
+  (value) => (isBlank(value) ? null : value),
+  z.string().trim().nullable(),
+);
+
+export const mappingInputSchema = z
+  .object({
+    shopifySku: z.string().trim().min(1),
+    provider: z.preprocess(
+      (value) => (isBlank(value) ? DEFAULT_PROVIDER : value),
+      z.string().trim().min(1),
+    ),
+    providerSku: z.string().trim().min(1),
+    packageType: z.preprocess(
+      (value) => (isBlank(value) ? DEFAULT_PACKAGE_TYPE : value),
+      z.enum(['fixed', 'daypass', 'renewal']),
+    ),
+    daysCount: z.preprocess(
+      (value) => (isBlank(value) ? null : Number(value)),
+      z.number().int().min(1).nullable(),
+    ),
+    name: optionalText,
+    region: optionalText,
+    dataAmount: optionalText,
+    validity: optionalText,
+    isActive: z.preprocess(
+      (value) => (isBlank(value) ? true : value === true || value === 'true' || value === '1'),
+      z.boolean(),
+    ),
+  })
+  .superRefine((mapping, ctx) => {
+    if (mapping.provider !== 'firoam') return;
+
+    const match = FIROAM_PROVIDER_SKU.exec(mapping.providerSku);
+    if (!match) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['providerSku'],
+        message: 'Expected "skuId:apiCode:priceId" (e.g. "120:826-0-?-1-G-D:14094")',
+      });
+      return;
+    }
+
+    // Daypass apiCodes carry a "?" that the worker replaces with daysCount.
+    // Renewal packages top up an existing eSIM and may be either kind.
+    const apiCode = match[2];
+    if (mapping.packageType === 'renewal') {
+      if (apiCode.includes('?') && !mapping.daysCount) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['daysCount'],
+          message: 'daysCount is required for daypass renewal packages',
+        });
+      }
+      if (!apiCode.includes('?') && mapping.daysCount !== null) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['daysCount'],
+          message: 'daysCount must be empty for fixed renewal packages',
+        });
+      }
+    } else if (mapping.packageType === 'daypass') {
+      if (!mapping.daysCount) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['daysCount'],
+          message: 'daysCount is required for daypass packages',
+        });
+      }
+      if (!apiCode.includes('?')) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['providerSku'],
+          message: 'Daypass apiCode must contain "?" for the day count',
+        });
+      }
+    } else {
+      if (mapping.daysCount !== null) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['daysCount'],
+          message: 'daysCount must be empty for fixed packages',
+        });
+      }
+      if (apiCode.includes('?')) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['providerSku'],
+          message: 'Fixed package apiCode must not contain "?"',
+        });
+      }
+    }
+  });
+
+export type MappingInput = z.infer<typeof mappingInputSchema>;
+
+export interface MappingRowError {
+  row: number; // 1-based position in the import (excluding a CSV header)
+  shopifySku?: string;
+  errors: string[];
+}
+
+export interface MappingChange {
+  shopifySku: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+export interface MappingImportDiff {
+  creates: MappingInput[];
+  updates: MappingChange[];
+  unchanged: number;
+}
+
+/**
+ * Validate import rows: field format, packageType/daysCount consistency and duplicate SKUs
+ */
+export function validateMappingRows(rows: unknown[]): {
+  mappings: MappingInput[];
+  errors: MappingRowError[];
+} {
+  const mappings: MappingInput[] = [];
+  const errors: MappingRowError[] = [];
+  const firstRowBySku = new Map<string, number>();
+
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const parsed = mappingInputSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      errors.push({
+        row,
+        shopifySku: (raw as { shopifySku?: string })?.shopifySku,
+        errors: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+      return;
+    }
+
+    const { shopifySku } = parsed.data;
+    const firstRow = firstRowBySku.get(shopifySku);
+    if (firstRow !== undefined) {
+      errors.push({
+        row,
+        shopifySku,
+        errors: [`Duplicate shopifySku (first seen on row ${firstRow})`],
+      });
+      return;
+    }
+
+    firstRowBySku.set(shopifySku, row);
+    mappings.push(parsed.data);
+  });
+
+  return { mappings, errors };
+}
+
+/**
+ * An existing row's value as the import schema would read it, so blank or defaulted
+ * columns in older rows don't show up as changes
+ */
+function normalizeExisting(mapping: ProviderSkuMapping, field: (typeof MAPPING_FIELDS)[number]) {
+  const value = mapping[field];
+  if (field === 'provider') return isBlank(value) ? DEFAULT_PROVIDER : value;
+  if (field === 'packageType') return isBlank(value) ? DEFAULT_PACKAGE_TYPE : value;
+  return value === '' ? null : value;
+}
+
+/**
+ * Compare validated rows against the database
+ */
+export async function diffMappingImport(mappings: MappingInput[]): Promise<MappingImportDiff> {
+  const existingBySku = new Map<string, ProviderSkuMapping>();
+
+  // Chunked to stay well under Postgres' bind parameter limit
+  for (let i = 0; i < mappings.length; i += 5000) {
+    const skus = mappings.slice(i, i + 5000).map((m) => m.shopifySku);
+    const existing = await prisma.providerSkuMapping.findMany({
+      where: { shopifySku: { in: skus } },
+    });
+    for (const mapping of existing) existingBySku.set(mapping.shopifySku, mapping);
+  }
+
+  const diff: MappingImportDiff = { creates: [], updates: [], unchanged: 0 };
+
+  for (const mapping of mappings) {
+    const existing = existingBySku.get(mapping.shopifySku);
+    if (!existing) {
+      diff.creates.push(mapping);
+      continue;
+    }
+
+    const changes: MappingChange['changes'] = {};
+    for (const field of MAPPING_FIELDS) {
+      const from = normalizeExisting(existing, field);
+      if (from !== mapping[field]) {
+        changes[field] = { from, to: mapping[field] };
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      diff.updates.push({ shopifySku: mapping.shopifySku, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Apply an import diff in a single transaction
+ */
+export async function applyMappingImport(
+  mappings: MappingInput[],
+  diff: MappingImportDiff,
+): Promise<void> {
+  const bySku = new Map(mappings.map((m) => [m.shopifySku, m]));
+
+  await prisma.$transaction(
+    async (tx) => {
+      if (diff.creates.length > 0) {
+        await tx.providerSkuMapping.createMany({ data: diff.creates });
+      }
+      for (const update of diff.updates) {
+        const { shopifySku, ...data } = bySku.get(update.shopifySku) as MappingInput;
+        await tx.providerSkuMapping.update({ where: { shopifySku }, data });
+      }
+    },
+    { timeout: 120_000 },
+  );
+}
+
+/**
+ * Serialize mappings in the import format
+ */
+export function exportMappings(mappings: ProviderSkuMapping[], format: 'csv' | 'json'): string {
+  const rows = mappings.map((mapping) =>
+    Object.fromEntries(MAPPING_FIELDS.map((field) => [field, mapping[field]])),
+  );
+
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  return toCsv([
+    [...MAPPING_FIELDS],
+    ...rows.map((row) =>
+      MAPPING_FIELDS.map((field) => row[field] as string | number | boolean | null),
+    ),
+  ]);
+}
@@ -0,0 +1,172 @@
+/**
+ * Usage Alert Service
+ * Low-balance and expiry emails driven by polled usage, each sent at most once per eSIM
+ */
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { deriveKey } from '../utils/crypto';
+import { getPublicBaseUrl } from '../utils/publicUrl';
+import { createSignedToken, verifySignedToken } from '../utils/signedToken';
+import { sendUsageAlertEmail, type UsageAlertKind } from './email';
+import { getShopBranding } from './shops';
+import { resolveLocale } from '../i18n';
+import { createUsageToken, buildUsagePageUrl } from './usageLinks';
+
+const EXPIRY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const UNSUBSCRIBE_TOKEN_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface UsageReading {
+  usedMb: number;
+  totalMb: number;
+  endDate: Date | null;
+}
+
+/**
+ * Alerts a reading qualifies for. Only the highest usage threshold applies, and an
+ * expiry warning is pointless once the data has run out.
+ */
+function pickAlertKinds(reading: UsageReading, now = Date.now()): UsageAlertKind[] {
+  const usedRatio = reading.totalMb > 0 ? reading.usedMb / reading.totalMb : 0;
+  const kinds: UsageAlertKind[] = [];
+
+  if (usedRatio >= 1) {
+    kinds.push('usage_100');
+  } else {
+    if (usedRatio >= 0.8) kinds.push('usage_80');
+
+    const msLeft = reading.endDate ? reading.endDate.getTime() - now : null;
+    if (msLeft !== null && msLeft > 0 && msLeft <= EXPIRY_WINDOW_MS) kinds.push('expiring');
+  }
+
+  return kinds;
+}
+
+function buildUnsubscribeUrl(deliveryId: string): string | undefined {
+  const baseUrl = getPublicBaseUrl();
+  if (!baseUrl) return undefined;
+
+  const token = createSignedToken(
+    deliveryId,
+    new Date(Date.now() + UNSUBSCRIBE_TOKEN_TTL_MS),
+    deriveKey('unsubscribe'),
+  );
+  return `${baseUrl}/notifications/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Cart link that tops up this eSIM: the same plan with an ICCID line item property, which the
+ * orders/paid webhook turns into a renewal. Custom items have no variant to link.
+ */
+function buildTopUpUrl(storefrontUrl: string, variantId: string, iccid: string): string {
+  if (!variantId) return storefrontUrl;
+
+  const params = new URLSearchParams({ id: variantId, quantity: '1', 'properties[ICCID]': iccid });
+  return `${storefrontUrl}/cart/add?${params}`;
+}
+
+async function hasOptedOut(shop: string, email: string): Promise<boolean> {
+  const preference = await prisma.customerPreference.findUnique({
+    where: { shop_email: { shop, email: email.toLowerCase() } },
+  });
+  return !!preference?.usageAlertsOptOutAt;
+}
+
+/**
+ * Send any alerts a fresh usage reading qualifies for
+ */
+export async function checkUsageAlerts(
+  deliveryId: string,
+  iccid: string,
+  reading: UsageReading,
+): Promise<void> {
+  const kinds = pickAlertKinds(reading);
+  if (kinds.length === 0) return;
+
+  const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery?.customerEmail || delivery.status !== 'delivered') return;
+  if (await hasOptedOut(delivery.shop, delivery.customerEmail)) return;
+
+  const mapping = delivery.sku
+    ? await prisma.providerSkuMapping.findUnique({ where: { shopifySku: delivery.sku } })
+    : null;
+  const branding = await getShopBranding(delivery.shop);
+
+  for (const kind of kinds) {
+    // Claim before sending, so overlapping polls can't both send
+    try {
+      await prisma.usageAlert.create({ data: { deliveryId, kind } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        continue;
+      }
+      throw error;
+    }
+
+    // Release the claim so the next poll retries
+    const releaseClaim = () =>
+      prisma.usageAlert.deleteMany({ where: { deliveryId, kind, messageId: null } });
+
+    let result: Awaited<ReturnType<typeof sendUsageAlertEmail>>;
+    try {
+      result = await sendUsageAlertEmail({
+        to: delivery.customerEmail,
+        kind,
+        orderNumber: delivery.orderName,
+        productName: mapping?.name || undefined,
+        usedMb: reading.usedMb,
+        totalMb: reading.totalMb,
+        endDate: reading.endDate,
+        topUpUrl: buildTopUpUrl(branding.storefrontUrl, delivery.variantId, iccid),
+        usageUrl: buildUsagePageUrl(branding.storefrontUrl, createUsageToken(deliveryId)),
+        unsubscribeUrl: buildUnsubscribeUrl(deliveryId),
+        branding,
+        locale: resolveLocale(delivery.locale, branding.locale),
+      });
+    } catch (error) {
+      await releaseClaim();
+      throw error;
+    }
+
+    if (result.success) {
+      await prisma.usageAlert.update({
+        where: { deliveryId_kind: { deliveryId, kind } },
+        data: { messageId: result.messageId },
+      });
+      console.log(`[UsageAlert] Sent ${kind} alert for delivery ${deliveryId}`);
+    } else {
+      await releaseClaim();
+      console.error(`[UsageAlert] Failed to send ${kind} alert for ${deliveryId}: ${result.error}`);
+    }
+  }
+}
+
+/**
+ * Whether an unsubscribe link is still valid, without acting on it
+ */
+export function isValidUnsubscribeToken(token: string): boolean {
+  return verifySignedToken(token, deriveKey('unsubscribe')) !== null;
+}
+
+/**
+ * Opt the customer behind an unsubscribe link out of usage alerts for that shop
+ */
+export async function unsubscribeFromUsageAlerts(token: string): Promise<boolean> {
+  const deliveryId = verifySignedToken(token, deriveKey('unsubscribe'));
+  if (!deliveryId) return false;
+
+  const delivery = await prisma.esimDelivery.findUnique({
+    where: { id: deliveryId },
+    select: { shop: true, customerEmail: true },
+  });
+  if (!delivery?.customerEmail) return false;
+
+  const email = delivery.customerEmail.toLowerCase();
+  await prisma.customerPreference.upsert({
+    where: { shop_email: { shop: delivery.shop, email } },
+    create: { shop: delivery.shop, email, usageAlertsOptOutAt: new Date() },
+    update: { usageAlertsOptOutAt: new Date() },
+  });
+
+  console.log(`[UsageAlert] ${email} unsubscribed from usage alerts on ${delivery.shop}`);
+  return true;
+}
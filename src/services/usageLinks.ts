@@ -0,0 +1,36 @@
+/**
+ * Usage Link Service
+ * Signed, expiring tokens that authorize usage lookups for one delivery
+ */
+import { deriveKey } from '../utils/crypto';
+import { createSignedToken, verifySignedToken } from '../utils/signedToken';
+
+const USAGE_LINK_TTL_DAYS = Number(process.env.USAGE_LINK_TTL_DAYS || 365);
+
+function getUsageTokenKey(): Buffer {
+  return process.env.USAGE_TOKEN_SECRET
+    ? Buffer.from(process.env.USAGE_TOKEN_SECRET)
+    : deriveKey('usage-token');
+}
+
+/**
+ * Token for the usage dashboard link in delivery emails
+ */
+export function createUsageToken(deliveryId: string): string {
+  const expiresAt = new Date(Date.now() + USAGE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+  return createSignedToken(deliveryId, expiresAt, getUsageTokenKey());
+}
+
+/**
+ * Delivery id the token was issued for, or null if invalid or expired
+ */
+export function verifyUsageToken(token: string): string | null {
+  return verifySignedToken(token, getUsageTokenKey());
+}
+
+/**
+ * Storefront usage dashboard link for a usage token
+ */
+export function buildUsagePageUrl(storefrontUrl: string, usageToken: string): string {
+  return `${storefrontUrl}/pages/my-esim-usage?token=${encodeURIComponent(usageToken)}`;
+}
@@ -0,0 +1,42 @@
+/**
+ * Vendor Orders Service
+ * Ties vendor orders to deliveries, so no attempt ever buys a second eSIM for the same unit
+ */
+import type { EsimDelivery } from '@prisma/client';
+import prisma from '../db/prisma';
+import type { EsimProvider, ExternalOrderIds } from '../vendor/esimProvider';
+
+/**
+ * External IDs sent with every vendor order, so a retry can find what an earlier attempt bought.
+ * Each unit of a multi-quantity line item is its own vendor order, so the unit is appended.
+ */
+export function vendorExternalIds(delivery: EsimDelivery): ExternalOrderIds {
+  return {
+    orderId: delivery.orderId,
+    itemId:
+      delivery.unitCount > 1 ? `${delivery.lineItemId}:${delivery.unitIndex}` : delivery.lineItemId,
+  };
+}
+
+/**
+ * Vendor order an earlier attempt already placed for this delivery, if any: first the EsimOrder
+ * rows linked to the delivery, then the provider's own order list by external IDs
+ * (covers a crash between the vendor response and our own insert).
+ */
+export async function findExistingVendorOrder(
+  delivery: EsimDelivery,
+  provider: EsimProvider,
+): Promise<string | null> {
+  const local = await prisma.esimOrder.findFirst({
+    where: { deliveryId: delivery.id, status: { not: 'cancelled' } },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (local) return local.vendorReferenceId;
+
+  const lookup = await provider.findOrder(vendorExternalIds(delivery));
+  if (!lookup.success) {
+    // Ordering without knowing could buy a second eSIM
+    throw new Error(lookup.error);
+  }
+  return lookup.orderRef;
+}
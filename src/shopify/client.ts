@@ -1,9 +1,12 @@
 import axios, { AxiosInstance } from 'axios';
+import prisma from '../db/prisma';
+import { decrypt } from '../utils/crypto';
 
 interface ShopifyConfig {
   shopDomain: string;
-  clientId: string;
-  clientSecret: string;
+  clientId?: string;
+  clientSecret?: string;
+  accessToken?: string; // Offline token from OAuth install - skips client credentials grant
 }
 
 interface TokenResponse {
@@ -14,7 +17,7 @@ interface TokenResponse {
 
 /**
  * Shopify Admin API client with automatic token refresh
- * Uses client credentials grant (OAuth 2.0)
+ * Uses client credentials grant (OAuth 2.0), or a stored offline access token for OAuth-installed shops
  */
 export class ShopifyClient {
   private config: ShopifyConfig;
@@ -31,12 +34,28 @@ export class ShopifyClient {
         'Content-Type': 'application/json',
       },
     });
+
+    // A stored offline token is revoked by a reinstall in another process - drop this client
+    // so the next call reloads the new token from the Shop row
+    if (config.accessToken) {
+      this.axiosInstance.interceptors.response.use(undefined, (error) => {
+        if (axios.isAxiosError(error) && error.response?.status === 401) {
+          evictShopifyClient(config.shopDomain);
+        }
+        return Promise.reject(error);
+      });
+    }
   }
 
   /**
    * Get valid access token, refresh if needed
    */
   private async getAccessToken(): Promise<string> {
+    // Offline tokens from the OAuth install flow don't expire
+    if (this.config.accessToken) {
+      return this.config.accessToken;
+    }
+
     const now = Date.now();
 
     // Token still valid (with 5min buffer)
@@ -63,6 +82,10 @@ export class ShopifyClient {
    * Exchange client credentials for access token
    */
   private async refreshAccessToken(): Promise<string> {
+    if (!this.config.clientId || !this.config.clientSecret) {
+      throw new Error(`No Shopify credentials configured for ${this.config.shopDomain}`);
+    }
+
     try {
       const response = await axios.post<TokenResponse>(
         `https://${this.config.shopDomain}/admin/oauth/access_token`,
@@ -129,8 +152,8 @@ export class ShopifyClient {
       }
     `;
 
-    const response = await axios.post(
-      `https://${this.config.shopDomain}/admin/api/2026-01/graphql.json`,
+    const response = await this.axiosInstance.post(
+      '/graphql.json',
       {
         query,
         variables: {
@@ -152,8 +175,12 @@ export class ShopifyClient {
   /**
    * Create fulfillment for an order using GraphQL
    * Uses the modern fulfillmentCreate mutation
+   * @param lineItemIds - Only fulfill these line items (e.g. the eSIMs of a mixed order)
    */
-  async createFulfillment(orderId: string): Promise<unknown> {
+  async createFulfillment(
+    orderId: string,
+    lineItemIds?: string[],
+  ): Promise<{ alreadyFulfilled: boolean; fulfillment?: unknown }> {
     const token = await this.getAccessToken();
 
     // Step 1: Get the fulfillment order ID
@@ -166,6 +193,17 @@ export class ShopifyClient {
                 id
                 status
                 requestStatus
+                lineItems(first: 50) {
+                  edges {
+                    node {
+                      id
+                      remainingQuantity
+                      lineItem {
+                        id
+                      }
+                    }
+                  }
+                }
               }
             }
           }
@@ -173,8 +211,8 @@ export class ShopifyClient {
       }
     `;
 
-    const queryResponse = await axios.post(
-      `https://${this.config.shopDomain}/admin/api/2026-01/graphql.json`,
+    const queryResponse = await this.axiosInstance.post(
+      '/graphql.json',
       {
         query: queryFulfillmentOrders,
         variables: {
@@ -215,10 +253,42 @@ export class ShopifyClient {
       );
     }
 
+    type FulfillmentOrderEdge = {
+      node: {
+        id: string;
+        status: string;
+        lineItems?: {
+          edges: Array<{
+            node: { id: string; remainingQuantity: number; lineItem: { id: string } };
+          }>;
+        };
+      };
+    };
+
+    const isRequested = (item: { lineItem: { id: string } }) =>
+      (lineItemIds || []).some((id) => item.lineItem.id === `gid://shopify/LineItem/${id}`);
+
+    // Line items of a fulfillment order that we were asked to fulfill
+    const selectLineItems = (edge: FulfillmentOrderEdge) =>
+      (edge.node.lineItems?.edges || [])
+        .map((item) => item.node)
+        .filter((item) => item.remainingQuantity > 0 && isRequested(item));
+
+    // Nothing left to fulfill, e.g. a retry after a fulfillment we didn't get to record
+    const requestedItems = (fulfillmentOrders as FulfillmentOrderEdge[])
+      .flatMap((edge) => (edge.node.lineItems?.edges || []).map((item) => item.node))
+      .filter((item) => !lineItemIds || isRequested(item));
+    if (requestedItems.length > 0 && requestedItems.every((item) => item.remainingQuantity === 0)) {
+      console.log(`[Shopify] Order ${orderId} line items are already fulfilled`);
+      return { alreadyFulfilled: true };
+    }
+
     // Find a fulfillable order (status: OPEN, SCHEDULED, or IN_PROGRESS)
     const fulfillableStatuses = ['OPEN', 'SCHEDULED', 'IN_PROGRESS'];
-    const fulfillableOrder = fulfillmentOrders.find((edge: { node: { status: string } }) =>
-      fulfillableStatuses.includes(edge.node.status),
+    const fulfillableOrder = fulfillmentOrders.find(
+      (edge: FulfillmentOrderEdge) =>
+        fulfillableStatuses.includes(edge.node.status) &&
+        (!lineItemIds || selectLineItems(edge).length > 0),
     );
 
     if (!fulfillableOrder) {
@@ -234,7 +304,7 @@ export class ShopifyClient {
       `[Shopify] Creating fulfillment for order ${orderId}, fulfillment order: ${fulfillmentOrderId}`,
     );
 
-    // Step 2: Create the fulfillment (fulfills all items in the fulfillment order)
+    // Step 2: Create the fulfillment
     const mutation = `
       mutation fulfillmentCreate($fulfillment: FulfillmentInput!) {
         fulfillmentCreate(fulfillment: $fulfillment) {
@@ -250,8 +320,8 @@ export class ShopifyClient {
       }
     `;
 
-    const mutationResponse = await axios.post(
-      `https://${this.config.shopDomain}/admin/api/2026-01/graphql.json`,
+    const mutationResponse = await this.axiosInstance.post(
+      '/graphql.json',
       {
         query: mutation,
         variables: {
@@ -259,6 +329,13 @@ export class ShopifyClient {
             lineItemsByFulfillmentOrder: [
               {
                 fulfillmentOrderId: fulfillmentOrderId,
+                // Omitted: fulfills all items in the fulfillment order
+                fulfillmentOrderLineItems: lineItemIds
+                  ? selectLineItems(fulfillableOrder).map((item) => ({
+                      id: item.id,
+                      quantity: item.remainingQuantity,
+                    }))
+                  : undefined,
               },
             ],
             notifyCustomer: false,
@@ -280,7 +357,14 @@ export class ShopifyClient {
       throw new Error(`Shopify fulfillment errors: ${errors}`);
     }
 
-    return result?.fulfillment;
+    return { alreadyFulfilled: false, fulfillment: result?.fulfillment };
+  }
+
+  /**
+   * Shop domain this client is bound to
+   */
+  get shopDomain(): string {
+    return this.config.shopDomain;
   }
 
   /**
@@ -311,3 +395,41 @@ export function getShopifyClient(): ShopifyClient {
 
   return shopifyClient;
 }
+
+// Per-shop clients, keyed by myshopify domain. Reinstalls in the API process only evict the
+// API's own cache, so the worker reloads tokens after this long.
+const SHOP_CLIENT_TTL_MS = 10 * 60 * 1000;
+const shopClients = new Map<string, { client: ShopifyClient; loadedAt: number }>();
+
+/**
+ * Get the Shopify client for a shop (e.g. from the x-shopify-shop-domain header or EsimDelivery.shop).
+ * OAuth-installed shops use their stored offline token; the env-configured shop uses the default client.
+ */
+export async function getShopifyClientForShop(shopDomain?: string | null): Promise<ShopifyClient> {
+  if (!shopDomain || shopDomain === process.env.SHOPIFY_SHOP_DOMAIN) {
+    return getShopifyClient();
+  }
+
+  const cached = shopClients.get(shopDomain);
+  if (cached && Date.now() - cached.loadedAt < SHOP_CLIENT_TTL_MS) return cached.client;
+
+  const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+  if (!shop || !shop.isActive || !shop.accessTokenEncrypted) {
+    throw new Error(`Shop ${shopDomain} is not installed`);
+  }
+
+  const client = new ShopifyClient({
+    shopDomain,
+    accessToken: decrypt(shop.accessTokenEncrypted),
+  });
+  shopClients.set(shopDomain, { client, loadedAt: Date.now() });
+
+  return client;
+}
+
+/**
+ * Drop a cached shop client (after reinstall or uninstall, or when its token is rejected)
+ */
+export function evictShopifyClient(shopDomain: string): void {
+  shopClients.delete(shopDomain);
+}
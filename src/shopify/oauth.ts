@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+const STATE_TTL_MS = 10 * 60 * 1000;
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/;
+
+interface OAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  appUrl: string;
+  scopes: string;
+}
+
+/**
+ * Read OAuth app configuration from environment variables
+ */
+export function getOAuthConfig(): OAuthConfig {
+  const config = {
+    clientId: process.env.SHOPIFY_CLIENT_ID || '',
+    clientSecret: process.env.SHOPIFY_CLIENT_SECRET || '',
+    appUrl: (process.env.SHOPIFY_APP_URL || '').replace(/\/+$/, ''),
+    scopes:
+      process.env.SHOPIFY_SCOPES ||
+      'read_orders,read_products,read_merchant_managed_fulfillment_orders,write_merchant_managed_fulfillment_orders',
+  };
+
+  if (!config.clientId || !config.clientSecret || !config.appUrl) {
+    throw new Error('SHOPIFY_CLIENT_ID, SHOPIFY_CLIENT_SECRET and SHOPIFY_APP_URL must be set');
+  }
+
+  return config;
+}
+
+/**
+ * Validate a shop parameter is a bare myshopify domain (prevents open redirects)
+ */
+export function isValidShopDomain(shop: unknown): shop is string {
+  return typeof shop === 'string' && SHOP_DOMAIN_PATTERN.test(shop);
+}
+
+/**
+ * Create a signed, expiring OAuth state bound to the shop.
+ * Stateless, so install and callback can land on different API instances.
+ */
+export function createOAuthState(shop: string, secret: string): string {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const expiresAt = Date.now() + STATE_TTL_MS;
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${shop}:${nonce}:${expiresAt}`)
+    .digest('hex');
+  return `${nonce}.${expiresAt}.${signature}`;
+}
+
+/**
+ * Verify an OAuth state created by createOAuthState for the same shop
+ */
+export function verifyOAuthState(state: string, shop: string, secret: string): boolean {
+  const [nonce, expiresAt, signature] = state.split('.');
+  if (!nonce || !expiresAt || !signature) return false;
+  if (Number(expiresAt) < Date.now()) return false;
+
+  const expected = crypto
+    .createHmac('sha256', secret)
+    .update(`${shop}:${nonce}:${expiresAt}`)
+    .digest('hex');
+
+  return (
+    expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  );
+}
+
+/**
+ * Verify the hmac query parameter Shopify adds to OAuth redirects
+ * @param query - All query parameters from the callback request
+ * @param secret - App client secret
+ */
+export function verifyOAuthQuery(query: Record<string, string>, secret: string): boolean {
+  const { hmac, ...params } = query;
+  if (!hmac) return false;
+
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  const expected = crypto.createHmac('sha256', secret).update(message).digest('hex');
+
+  return (
+    expected.length === hmac.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(hmac))
+  );
+}
+
+/**
+ * Build the Shopify authorization URL the merchant is redirected to
+ */
+export function buildInstallUrl(shop: string, state: string, config: OAuthConfig): string {
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    scope: config.scopes,
+    redirect_uri: `${config.appUrl}/auth/callback`,
+    state,
+  });
+  return `https://${shop}/admin/oauth/authorize?${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code for an offline access token
+ */
+export async function exchangeCodeForToken(
+  shop: string,
+  code: string,
+  config: OAuthConfig,
+): Promise<{ accessToken: string; scope: string }> {
+  const response = await axios.post<{ access_token: string; scope: string }>(
+    `https://${shop}/admin/oauth/access_token`,
+    {
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code,
+    },
+    { headers: { 'Content-Type': 'application/json' } },
+  );
+
+  return { accessToken: response.data.access_token, scope: response.data.scope };
+}
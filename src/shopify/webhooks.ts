@@ -11,10 +11,3 @@ export function verifyShopifyWebhook(body: string, hmacHeader: string, secret: s
   const hash = crypto.createHmac('sha256', secret).update(body, 'utf8').digest('base64');
   return hash === hmacHeader;
 }
-
-/**
- * Generate idempotency key for webhook
- */
-export function generateIdempotencyKey(orderId: string, lineItemId: string): string {
-  return `${orderId}:${lineItemId}`;
-}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRecords, toCsv } from '../utils/csv';
+
+/**
+ * Unit Tests for the CSV helpers behind the mapping import and delivery export
+ */
+describe('parseCsv() - Unit Tests', () => {
+  it('splits plain rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('"EU, 5GB","line1\nline2","say ""hi"""')).toEqual([
+      ['EU, 5GB', 'line1\nline2', 'say "hi"'],
+    ]);
+  });
+
+  it('handles CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty fields and drops blank lines', () => {
+    expect(parseCsv('a,,c\n\n , \n1,2,')).toEqual([
+      ['a', '', 'c'],
+      ['1', '2', ''],
+    ]);
+  });
+});
+
+describe('parseCsvRecords() - Unit Tests', () => {
+  it('keys rows by the trimmed header and strips a byte order mark', () => {
+    expect(parseCsvRecords('\uFEFFshopifySku, providerSku\nESIM-EU,"26:17464"')).toEqual([
+      { shopifySku: 'ESIM-EU', providerSku: '26:17464' },
+    ]);
+  });
+
+  it('fills missing trailing fields with empty strings', () => {
+    expect(parseCsvRecords('a,b,c\n1')).toEqual([{ a: '1', b: '', c: '' }]);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
+
+describe('toCsv() - Unit Tests', () => {
+  it('quotes only the fields that need it', () => {
+    expect(
+      toCsv([
+        ['plain', 'a,b', 'say "hi"', 'two\nlines'],
+        [1, true, null, undefined],
+      ]),
+    ).toBe('plain,"a,b","say ""hi""","two\nlines"\n1,true,,');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [
+      ['#1001', 'Europe, 5GB', 'quote "x"'],
+      ['#1002', 'multi\r\nline', ''],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
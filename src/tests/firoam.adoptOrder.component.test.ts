@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import nock from 'nock';
+import FiRoamClient from '../vendor/firoamClient';
+
+// Mock Prisma - must match the import path in firoamClient.ts
+const upsert = vi.fn().mockResolvedValue({ id: 'mock-db-id' });
+vi.mock('../db/prisma', () => ({
+  default: {
+    esimOrder: {
+      upsert: (...args: unknown[]) => upsert(...args),
+      create: vi.fn().mockResolvedValue({ id: 'mock-invalid-id' }),
+    },
+  },
+}));
+
+/**
+ * Component Tests for FiRoamClient.adoptOrder()
+ *
+ * Mocks the FiRoam login and getOrderInfo endpoints to verify that an order placed
+ * by an earlier attempt is fetched, validated and linked to the adopting delivery.
+ */
+describe('FiRoamClient.adoptOrder() - Component Tests', () => {
+  const base = process.env.FIROAM_BASE_URL || 'https://bpm.roamwifi.hk';
+
+  beforeEach(() => {
+    nock.cleanAll();
+    upsert.mockClear();
+    process.env.FIROAM_PHONE = process.env.FIROAM_PHONE || 'mock-phone';
+    process.env.FIROAM_PASSWORD = process.env.FIROAM_PASSWORD || 'mock-pass';
+    process.env.ENCRYPTION_KEY =
+      process.env.ENCRYPTION_KEY || 'test-encryption-key-should-be-32-bytes!';
+
+    nock(base)
+      .get('/api_order/login')
+      .query(true)
+      .reply(200, {
+        code: 1,
+        data: { token: 'mock-token' },
+      });
+  });
+
+  it('should return the canonical payload and link the order to the delivery', async () => {
+    let sentBody = '';
+    nock(base)
+      .post('/api_esim/getOrderInfo', (body) => {
+        sentBody = new URLSearchParams(body).toString();
+        return true;
+      })
+      .reply(200, {
+        code: 0,
+        data: {
+          orderNum: 'EP-EXISTING-1',
+          cardApiDtoList: [
+            {
+              code: 'LPA:1$smdp.example$ACT-1',
+              activationCode: 'ACT-1',
+              iccid: '8901000000000000009',
+            },
+          ],
+        },
+      });
+
+    const client = new FiRoamClient();
+    const result = await client.adoptOrder('EP-EXISTING-1', { deliveryId: 'delivery-1' });
+
+    expect(sentBody).toContain('orderNum=EP-EXISTING-1');
+    expect(result.canonical?.vendorId).toBe('EP-EXISTING-1');
+    expect(result.canonical?.iccid).toBe('8901000000000000009');
+    expect(result.db?.id).toBe('mock-db-id');
+
+    const args = upsert.mock.calls[0][0] as Record<string, Record<string, unknown>>;
+    expect(args.where.vendorReferenceId).toBe('EP-EXISTING-1');
+    expect(args.create.deliveryId).toBe('delivery-1');
+    expect(args.update.deliveryId).toBe('delivery-1');
+  });
+
+  it('should not record anything when FiRoam rejects the lookup', async () => {
+    nock(base).post('/api_esim/getOrderInfo').reply(200, {
+      code: '3',
+      message: 'data not exist',
+      data: '',
+    });
+
+    const client = new FiRoamClient();
+    const result = await client.adoptOrder('EP-MISSING');
+
+    expect(result.canonical).toBeUndefined();
+    expect(result.raw.message).toBe('data not exist');
+    expect(upsert).not.toHaveBeenCalled();
+  });
+});
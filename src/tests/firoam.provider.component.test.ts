@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import type { ProviderSkuMapping } from '@prisma/client';
+import FiRoamProvider from '../vendor/firoamProvider';
+import { ProviderConfigError } from '../vendor/esimProvider';
+
+function mapping(overrides: Partial<ProviderSkuMapping>): ProviderSkuMapping {
+  return {
+    shopifySku: 'GB-1GB-3D-DAYPASS',
+    provider: 'firoam',
+    providerSku: '120:826-0-?-1-G-D:14094',
+    packageType: 'daypass',
+    daysCount: 3,
+    isActive: true,
+    ...overrides,
+  } as ProviderSkuMapping;
+}
+
+const renewRequest = (overrides: Partial<ProviderSkuMapping>) => ({
+  mapping: mapping(overrides),
+  deliveryId: 'delivery-1',
+  locales: ['fr-CA'],
+  externalIds: { orderId: '5001', itemId: '9001' },
+  iccid: '8901000000000000001',
+});
+
+/**
+ * Component Tests for FiRoamProvider
+ *
+ * Mocks the FiRoam endpoints to verify that SKU mappings are turned into FiRoam
+ * request parameters and that responses come back in the provider-neutral shape.
+ */
+describe('FiRoamProvider - Component Tests', () => {
+  const base = process.env.FIROAM_BASE_URL || 'https://bpm.roamwifi.hk';
+
+  beforeEach(() => {
+    nock.cleanAll();
+    process.env.FIROAM_PHONE = process.env.FIROAM_PHONE || 'mock-phone';
+    process.env.FIROAM_PASSWORD = process.env.FIROAM_PASSWORD || 'mock-pass';
+
+    nock(base)
+      .get('/api_order/login')
+      .query(true)
+      .reply(200, {
+        code: 1,
+        data: { token: 'mock-token' },
+      });
+  });
+
+  it('should send the stored priceId and daypassDays for a daypass mapping', async () => {
+    let sentBody = '';
+    nock(base)
+      .post('/api_esim/renewCard', (body) => {
+        sentBody = new URLSearchParams(body).toString();
+        return true;
+      })
+      .reply(200, { code: 0, message: 'success', data: { orderNum: 'EP-RENEW-010' } });
+
+    const result = await new FiRoamProvider().renew(
+      renewRequest({ packageType: 'renewal', daysCount: 7 }),
+    );
+
+    expect(result).toEqual({ success: true, orderRef: 'EP-RENEW-010' });
+    expect(sentBody).toContain('skuId=120');
+    expect(sentBody).toContain('priceId=14094');
+    expect(sentBody).toContain('daypassDays=7');
+    expect(sentBody).toContain('pdfLanguage=fr-FR');
+    expect(sentBody).toContain('otherOrderId=5001');
+  });
+
+  it('should look up the priceid for a legacy daypass mapping without one', async () => {
+    let sentBody = '';
+    nock(base)
+      .post('/api_esim/getPackages')
+      .reply(200, {
+        code: 0,
+        data: {
+          esimPackageDtoList: [
+            {
+              flows: 1,
+              days: 1,
+              unit: 'GB',
+              price: 1,
+              priceid: 14095,
+              flowType: 0,
+              countryImageUrlDtoList: null,
+              showName: 'UK 1GB Daily',
+              pid: 1,
+              premark: '',
+              expireDays: 30,
+              networkDtoList: [],
+              supportDaypass: 1,
+              openCardFee: 0,
+              minDay: 1,
+              singleDiscountDay: 0,
+              singleDiscount: 0,
+              maxDiscount: 0,
+              maxDay: 30,
+              mustDate: 0,
+              apiCode: '826-0-3-1-G-D',
+            },
+          ],
+          skuid: 120,
+          detailId: null,
+          countrycode: 'GB',
+          imageUrl: '',
+          display: 'United Kingdom',
+          displayEn: 'United Kingdom',
+          supportCountry: ['GB'],
+          expirydate: null,
+          countryImageUrlDtoList: [],
+        },
+      })
+      .post('/api_esim/renewCard', (body) => {
+        sentBody = new URLSearchParams(body).toString();
+        return true;
+      })
+      .reply(200, { code: 0, message: 'success', data: 'EP-RENEW-011' });
+
+    const result = await new FiRoamProvider().renew(
+      renewRequest({ packageType: 'daypass', providerSku: '120:826-0-?-1-G-D' }),
+    );
+
+    expect(result.success).toBe(true);
+    expect(sentBody).toContain('priceId=14095');
+    expect(sentBody).toContain('daypassDays=3');
+  });
+
+  it('should reject a daypass mapping without daysCount as a configuration error', async () => {
+    await expect(
+      new FiRoamProvider().renew(renewRequest({ daysCount: null })),
+    ).rejects.toBeInstanceOf(ProviderConfigError);
+  });
+
+  it('should normalize usage for the requested ICCID', async () => {
+    nock(base)
+      .post('/api_esim/queryEsimOrder')
+      .reply(200, {
+        code: 0,
+        data: {
+          rows: [
+            {
+              orderNum: 'EP-1',
+              skuId: 120,
+              skuName: 'United Kingdom',
+              createTime: '2026-01-01 10:00:00',
+              packageList: [
+                {
+                  iccid: '8901000000000000001',
+                  flows: 2,
+                  unit: 'GB',
+                  usedMb: 512,
+                  days: 7,
+                  name: 'UK 2GB 7 Days',
+                  beginDate: '2026-01-02 08:00:00',
+                  endDate: null,
+                  status: 1,
+                },
+              ],
+            },
+          ],
+        },
+      });
+
+    const result = await new FiRoamProvider().queryUsage({ iccid: '8901000000000000001' });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.usage.totalMb).toBe(2048);
+    expect(result.usage.usedMb).toBe(512);
+    expect(result.usage.beginDate).toBe('2026-01-02 08:00:00');
+    expect(result.usage.endDate).toBeNull();
+    expect(result.usage.productName).toBe('United Kingdom');
+  });
+
+  it('should report notFound when FiRoam has no order for the ICCID', async () => {
+    nock(base)
+      .post('/api_esim/queryEsimOrder')
+      .reply(200, { code: 0, data: { rows: [] } });
+
+    const result = await new FiRoamProvider().queryUsage({ iccid: '8901000000000000001' });
+
+    expect(result).toMatchObject({ success: false, notFound: true });
+  });
+});
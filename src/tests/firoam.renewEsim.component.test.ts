@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import nock from 'nock';
+import FiRoamClient from '../vendor/firoamClient';
+
+/**
+ * Component Tests for FiRoamClient.renewEsim()
+ *
+ * Mocks the FiRoam login and renewCard endpoints to verify request handling
+ * and response parsing without touching the live API.
+ */
+describe('FiRoamClient.renewEsim() - Component Tests', () => {
+  const base = process.env.FIROAM_BASE_URL || 'https://bpm.roamwifi.hk';
+
+  beforeEach(() => {
+    nock.cleanAll();
+    process.env.FIROAM_PHONE = process.env.FIROAM_PHONE || 'mock-phone';
+    process.env.FIROAM_PASSWORD = process.env.FIROAM_PASSWORD || 'mock-pass';
+
+    nock(base)
+      .get('/api_order/login')
+      .query(true)
+      .reply(200, {
+        code: 1,
+        data: { token: 'mock-token' },
+      });
+  });
+
+  it('should renew an eSIM by ICCID and return the renewal order number', async () => {
+    let sentBody = '';
+    nock(base)
+      .post('/api_esim/renewCard', (body) => {
+        sentBody = new URLSearchParams(body).toString();
+        return true;
+      })
+      .reply(200, {
+        code: '0',
+        message: 'success',
+        data: { orderNum: 'EP-RENEW-001', renewal: 1, priceId: 14094 },
+      });
+
+    const client = new FiRoamClient();
+    const result = await client.renewEsim({
+      iccid: '8901000000000000001',
+      skuId: '120',
+      priceId: '14094',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.orderNum).toBe('EP-RENEW-001');
+    expect(sentBody).toContain('iccid=8901000000000000001');
+    expect(sentBody).toContain('priceId=14094');
+    expect(sentBody).not.toContain('daypassDays');
+  });
+
+  it('should accept a plain order number in data', async () => {
+    nock(base).post('/api_esim/renewCard').reply(200, {
+      code: 0,
+      message: 'success',
+      data: 'EP-RENEW-002',
+    });
+
+    const client = new FiRoamClient();
+    const result = await client.renewEsim({
+      iccid: '8901000000000000001',
+      skuId: '120',
+      priceId: '14094',
+      daypassDays: '7',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.orderNum).toBe('EP-RENEW-002');
+  });
+
+  it('should report failure when the eSIM does not exist', async () => {
+    nock(base).post('/api_esim/renewCard').reply(200, {
+      code: '-3',
+      message: 'data not exist',
+    });
+
+    const client = new FiRoamClient();
+    const result = await client.renewEsim({
+      iccid: '8901000000000000999',
+      skuId: '120',
+      priceId: '14094',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.orderNum).toBeUndefined();
+    expect(result.message).toBe('data not exist');
+  });
+
+  it('should reject a request without iccid or orderNum', async () => {
+    const client = new FiRoamClient();
+    await expect(client.renewEsim({ skuId: '120', priceId: '14094' })).rejects.toThrow(
+      'iccid or orderNum',
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { format, resolveLocale, toFiRoamPdfLanguage } from '../i18n';
+
+/**
+ * Unit Tests for picking the email language and FiRoam's PDF language
+ */
+describe('resolveLocale() - Unit Tests', () => {
+  it.each([
+    ['fr-CA', 'fr'],
+    ['fr_CA', 'fr'],
+    ['DE', 'de'],
+    [' es-MX ', 'es'],
+    ['ar', 'ar'],
+  ])('matches %s on its language subtag', (tag, locale) => {
+    expect(resolveLocale(tag)).toBe(locale);
+  });
+
+  it('falls back to the next candidate without a catalog', () => {
+    expect(resolveLocale('pt-BR', null, 'de')).toBe('de');
+  });
+
+  it('defaults to English', () => {
+    expect(resolveLocale('ja', undefined, '')).toBe('en');
+    expect(resolveLocale()).toBe('en');
+  });
+});
+
+describe('toFiRoamPdfLanguage() - Unit Tests', () => {
+  it.each([
+    ['fr-CA', 'fr-FR'],
+    ['en', 'en-US'],
+    ['pt', 'pt-BR'],
+    ['zh-CN', 'zh-CN'],
+    ['zh', 'zh-CN'],
+    ['zh-TW', 'zh-TW'],
+    ['zh_hk', 'zh-TW'],
+    ['zh-Hant-TW', 'zh-TW'],
+  ])('maps %s to %s', (tag, code) => {
+    expect(toFiRoamPdfLanguage(tag)).toBe(code);
+  });
+
+  it('covers languages without an email catalog', () => {
+    expect(toFiRoamPdfLanguage('ja-JP')).toBe('ja-JP');
+  });
+
+  it('falls back to the next candidate, then to the FiRoam default', () => {
+    expect(toFiRoamPdfLanguage('nl-NL', 'it')).toBe('it-IT');
+    expect(toFiRoamPdfLanguage('nl-NL', null)).toBeUndefined();
+  });
+});
+
+describe('format() - Unit Tests', () => {
+  it('fills known placeholders and leaves unknown ones', () => {
+    expect(format('{count} eSIM(s) for {name}', { count: 2 })).toBe('2 eSIM(s) for {name}');
+  });
+});
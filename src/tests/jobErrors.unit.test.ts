@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { z } from 'zod';
+import { PermanentJobError, isRetryableError } from '../queue/errors';
+import { ProviderConfigError } from '../vendor/esimProvider';
+
+function httpError(status: number): AxiosError {
+  const response = { status } as AxiosResponse;
+  return new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+/**
+ * Unit Tests for the retry decision made before a failed job is dead-lettered
+ */
+describe('isRetryableError() - Unit Tests', () => {
+  it.each([
+    ['PermanentJobError', new PermanentJobError('missing deliveryId')],
+    ['ProviderConfigError', new ProviderConfigError('No active mapping for SKU')],
+    ['ZodError', z.object({ deliveryId: z.string() }).safeParse({}).error],
+    ['HTTP 400', httpError(400)],
+    ['HTTP 404', httpError(404)],
+  ])('treats %s as permanent', (_label, err) => {
+    expect(isRetryableError(err)).toBe(false);
+  });
+
+  it.each([
+    ['HTTP 500', httpError(500)],
+    ['HTTP 503', httpError(503)],
+    ['HTTP 429', httpError(429)],
+    ['a timeout with no response', new AxiosError('timeout of 30000ms exceeded', 'ECONNABORTED')],
+    ['an unrecognized error', new Error('FiRoam error: token expired')],
+  ])('retries %s', (_label, err) => {
+    expect(isRetryableError(err)).toBe(true);
+  });
+});
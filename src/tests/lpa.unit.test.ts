@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseLpa, buildInstallLinks } from '../utils/lpa';
+
+/**
+ * Unit Tests for activation code parsing and one-tap install links
+ */
+describe('parseLpa() - Unit Tests', () => {
+  it('parses a standard activation code', () => {
+    expect(parseLpa('LPA:1$smdp.example.com$ABC-123')).toEqual({
+      lpa: 'LPA:1$smdp.example.com$ABC-123',
+      smdpAddress: 'smdp.example.com',
+      matchingId: 'ABC-123',
+      confirmationCodeRequired: false,
+    });
+  });
+
+  it('normalizes whitespace, a lowercase prefix and trailing empty fields', () => {
+    expect(parseLpa('  lpa:1$smdp.example.com$ABC-123$$  ')?.lpa).toBe(
+      'LPA:1$smdp.example.com$ABC-123',
+    );
+  });
+
+  it('adds the prefix when the vendor leaves it out', () => {
+    expect(parseLpa('1$smdp.example.com$ABC-123')?.lpa).toBe('LPA:1$smdp.example.com$ABC-123');
+  });
+
+  it('keeps an empty matching ID', () => {
+    const parsed = parseLpa('LPA:1$smdp.example.com$');
+    expect(parsed?.lpa).toBe('LPA:1$smdp.example.com$');
+    expect(parsed?.matchingId).toBe('');
+  });
+
+  it('reads the confirmation code flag', () => {
+    const parsed = parseLpa('LPA:1$smdp.example.com$ABC-123$1.2.3$1');
+    expect(parsed?.confirmationCodeRequired).toBe(true);
+    expect(parsed?.lpa).toBe('LPA:1$smdp.example.com$ABC-123$1.2.3$1');
+  });
+
+  it.each([
+    ['empty', ''],
+    ['null', null],
+    ['undefined', undefined],
+    ['an unknown format', 'LPA:2$smdp.example.com$ABC-123'],
+    ['a missing SM-DP+ address', 'LPA:1$$ABC-123'],
+    ['an SM-DP+ address without a domain', 'LPA:1$localhost$ABC-123'],
+    ['an SM-DP+ address with a path', 'LPA:1$smdp.example.com/x$ABC-123'],
+  ])('rejects %s', (_label, input) => {
+    expect(parseLpa(input)).toBeNull();
+  });
+});
+
+describe('buildInstallLinks() - Unit Tests', () => {
+  it('builds an Apple setup link and an Android LPA link from the normalized code', () => {
+    expect(buildInstallLinks(' lpa:1$smdp.example.com$ABC-123 ')).toEqual({
+      ios:
+        'https://esimsetup.apple.com/esim_qrcode_provisioning?carddata=' +
+        encodeURIComponent('LPA:1$smdp.example.com$ABC-123'),
+      android: 'LPA:1$smdp.example.com$ABC-123',
+    });
+  });
+
+  it('returns null for an unusable activation code', () => {
+    expect(buildInstallLinks('not an lpa')).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createSignedToken, verifySignedToken } from '../utils/signedToken';
+
+/**
+ * Unit Tests for the signed tokens behind usage links and unsubscribe links
+ */
+describe('Signed tokens - Unit Tests', () => {
+  const key = Buffer.from('test-signing-key-with-enough-bytes!!');
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  it('returns the subject of a valid token', () => {
+    const token = createSignedToken('cm123delivery', inOneHour(), key);
+    expect(verifySignedToken(token, key)).toBe('cm123delivery');
+  });
+
+  it('rejects an expired token', () => {
+    const token = createSignedToken('cm123delivery', new Date(Date.now() - 1000), key);
+    expect(verifySignedToken(token, key)).toBeNull();
+  });
+
+  it('rejects a token signed with another key', () => {
+    const token = createSignedToken('cm123delivery', inOneHour(), Buffer.from('another-key'));
+    expect(verifySignedToken(token, key)).toBeNull();
+  });
+
+  it('rejects a token whose subject was swapped', () => {
+    const [, expiry, signature] = createSignedToken('cm123delivery', inOneHour(), key).split('.');
+    expect(verifySignedToken(`cm456other.${expiry}.${signature}`, key)).toBeNull();
+  });
+
+  it('rejects a token whose expiry was extended', () => {
+    const [subject, expiry, signature] = createSignedToken(
+      'cm123delivery',
+      new Date(Date.now() - 1000),
+      key,
+    ).split('.');
+    const extended = Number(expiry) + 365 * 24 * 60 * 60;
+    expect(verifySignedToken(`${subject}.${extended}.${signature}`, key)).toBeNull();
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['too few parts', 'cm123delivery.1700000000'],
+    ['too many parts', 'cm.123.delivery.sig'],
+    ['a truncated signature', 'cm123delivery.1700000000.abc'],
+  ])('rejects %s', (_label, token) => {
+    expect(verifySignedToken(token, key)).toBeNull();
+  });
+});
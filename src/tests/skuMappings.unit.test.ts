@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ProviderSkuMapping } from '@prisma/client';
+import { parseCsvRecords } from '../utils/csv';
+import { diffMappingImport, validateMappingRows } from '../services/skuMappings';
+
+// Mock Prisma - must match the import path in skuMappings.ts
+const findMany = vi.fn();
+vi.mock('../db/prisma', () => ({
+  default: {
+    providerSkuMapping: {
+      findMany: (...args: unknown[]) => findMany(...args),
+    },
+  },
+}));
+
+function existingMapping(overrides: Partial<ProviderSkuMapping>): ProviderSkuMapping {
+  return {
+    id: 'map-1',
+    shopifySku: 'ESIM-EU-5GB',
+    provider: 'firoam',
+    providerSku: '120:826-0-5-1-G-D:14094',
+    name: null,
+    region: null,
+    dataAmount: null,
+    validity: null,
+    isActive: true,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    packageType: 'fixed',
+    daysCount: null,
+    ...overrides,
+  };
+}
+
+function parseImport(csv: string) {
+  const { mappings, errors } = validateMappingRows(parseCsvRecords(csv));
+  expect(errors).toEqual([]);
+  return mappings;
+}
+
+/**
+ * Unit Tests for the mapping import dry-run diff
+ */
+describe('diffMappingImport() - Unit Tests', () => {
+  const header = 'shopifySku,provider,providerSku,packageType,daysCount,name\n';
+
+  beforeEach(() => {
+    findMany.mockReset();
+  });
+
+  it('treats blank columns that match the defaults as unchanged', async () => {
+    findMany.mockResolvedValue([existingMapping({ packageType: null, name: '' })]);
+
+    const diff = await diffMappingImport(
+      parseImport(`${header}ESIM-EU-5GB,,120:826-0-5-1-G-D:14094,,,`),
+    );
+
+    expect(diff).toEqual({ creates: [], updates: [], unchanged: 1 });
+  });
+
+  it('reports a real change against a defaulted column', async () => {
+    findMany.mockResolvedValue([existingMapping({ packageType: null })]);
+
+    const diff = await diffMappingImport(
+      parseImport(`${header}ESIM-EU-5GB,,120:826-0-5-1-G-D:14094,renewal,,Europe 5GB`),
+    );
+
+    expect(diff.updates).toEqual([
+      {
+        shopifySku: 'ESIM-EU-5GB',
+        changes: {
+          packageType: { from: 'fixed', to: 'renewal' },
+          name: { from: null, to: 'Europe 5GB' },
+        },
+      },
+    ]);
+    expect(diff.unchanged).toBe(0);
+  });
+
+  it('lists SKUs not in the database as creates', async () => {
+    findMany.mockResolvedValue([]);
+
+    const diff = await diffMappingImport(
+      parseImport(`${header}ESIM-NEW,,120:826-0-5-1-G-D:14094,,,`),
+    );
+
+    expect(diff.creates).toHaveLength(1);
+    expect(diff.creates[0]).toMatchObject({ provider: 'firoam', packageType: 'fixed' });
+  });
+});
@@ -38,3 +38,21 @@ export function decrypt(data: string) {
   const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
   return decrypted.toString('utf8');
 }
+
+/**
+ * Derive a purpose-specific key from ENCRYPTION_KEY, so one secret can back several HMACs
+ */
+export function deriveKey(purpose: string) {
+  return crypto.createHmac('sha256', getKey()).update(purpose).digest();
+}
+
+/**
+ * Keyed hash for looking up encrypted values (e.g. ICCIDs) with an indexed equality query.
+ * Uses LOOKUP_HMAC_KEY, or a key derived from ENCRYPTION_KEY when unset.
+ */
+export function lookupHash(value: string) {
+  const hmacKey = process.env.LOOKUP_HMAC_KEY
+    ? Buffer.from(process.env.LOOKUP_HMAC_KEY)
+    : deriveKey('lookup-hash');
+  return crypto.createHmac('sha256', hmacKey).update(value).digest('hex');
+}
@@ -0,0 +1,71 @@
+/**
+ * Parse CSV text into rows of fields (RFC 4180: quoted fields, "" escapes, CRLF)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by header
+ */
+export function parseCsvRecords(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+  return rows.map((row) => Object.fromEntries(keys.map((key, i) => [key, row[i] ?? ''])));
+}
+
+/**
+ * Serialize rows to CSV, quoting fields that need it
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = value === null || value === undefined ? '' : String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(','),
+    )
+    .join('\n');
+}
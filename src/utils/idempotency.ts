@@ -1,3 +1,7 @@
-export function makeIdempotencyKey(orderId: string, lineItemId: string) {
-  return `${orderId}::${lineItemId}`;
+/**
+ * Idempotency key for one eSIM unit of a Shopify line item.
+ * Enforced by a unique index on EsimDelivery.idempotencyKey.
+ */
+export function makeIdempotencyKey(orderId: string, lineItemId: string, unitIndex = 0) {
+  return `${orderId}::${lineItemId}::${unitIndex}`;
 }
@@ -0,0 +1,58 @@
+/**
+ * eSIM activation codes (GSMA SGP.22): "LPA:1$<SM-DP+ address>$<matching ID>[$<OID>[$<CC flag>]]"
+ */
+export interface ParsedLpa {
+  lpa: string; // Normalized "LPA:1$..." string
+  smdpAddress: string;
+  matchingId: string;
+  confirmationCodeRequired: boolean;
+}
+
+export interface InstallLinks {
+  ios: string; // Apple universal link, opens the eSIM setup sheet (iOS 17.4+)
+  android: string; // The LPA URI itself, handed to the eSIM installer on Android
+}
+
+const APPLE_ESIM_SETUP_URL = 'https://esimsetup.apple.com/esim_qrcode_provisioning';
+const SMDP_ADDRESS =
+  /^[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?(\.[A-Za-z0-9]([A-Za-z0-9-]*[A-Za-z0-9])?)+$/;
+
+/**
+ * Parse an activation code as vendors send it: tolerates surrounding whitespace,
+ * a lowercase or missing "LPA:" prefix and trailing empty fields.
+ * Returns null if there is no valid SM-DP+ address to install from.
+ */
+export function parseLpa(input: string | null | undefined): ParsedLpa | null {
+  if (!input) return null;
+
+  const body = input.trim().replace(/^LPA:/i, '');
+  const [format, smdpAddress = '', matchingId = '', oid = '', ccFlag = ''] = body
+    .split('$')
+    .map((part) => part.trim());
+
+  if (format !== '1' || !SMDP_ADDRESS.test(smdpAddress)) return null;
+
+  const fields = [format, smdpAddress, matchingId, oid, ccFlag];
+  while (fields.length > 3 && !fields[fields.length - 1]) fields.pop();
+
+  return {
+    lpa: `LPA:${fields.join('$')}`,
+    smdpAddress,
+    matchingId,
+    confirmationCodeRequired: ccFlag === '1',
+  };
+}
+
+/**
+ * One-tap install links for a phone reading the email on the device it installs on,
+ * or null if the activation code can't be parsed
+ */
+export function buildInstallLinks(lpa: string | null | undefined): InstallLinks | null {
+  const parsed = parseLpa(lpa);
+  if (!parsed) return null;
+
+  return {
+    ios: `${APPLE_ESIM_SETUP_URL}?carddata=${encodeURIComponent(parsed.lpa)}`,
+    android: parsed.lpa,
+  };
+}
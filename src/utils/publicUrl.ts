@@ -0,0 +1,6 @@
+/**
+ * Public origin of this API for links in customer emails (no trailing slash), or '' if unset
+ */
+export function getPublicBaseUrl(): string {
+  return (process.env.PUBLIC_BASE_URL || process.env.SHOPIFY_APP_URL || '').replace(/\/+$/, '');
+}
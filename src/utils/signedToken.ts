@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+/**
+ * Stateless signed tokens: "<subject>.<expiry epoch seconds>.<base64url HMAC-SHA256>".
+ * The subject must not contain '.'.
+ */
+export function createSignedToken(subject: string, expiresAt: Date, key: Buffer): string {
+  const body = `${subject}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${body}.${sign(body, key)}`;
+}
+
+/**
+ * Return the token's subject if the signature is valid and it hasn't expired, else null
+ */
+export function verifySignedToken(token: string, key: Buffer): string | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [subject, expiry, signature] = parts;
+  const expected = Buffer.from(sign(`${subject}.${expiry}`, key));
+  const actual = Buffer.from(signature);
+
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+  if (!/^\d+$/.test(expiry) || Number(expiry) * 1000 < Date.now()) return null;
+
+  return subject;
+}
+
+function sign(body: string, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(body).digest('base64url');
+}
@@ -1,30 +1,223 @@
 import 'dotenv/config';
+import type PgBoss from 'pg-boss';
 import { initializeJobQueue, stopJobQueue } from '../queue/jobQueue';
+import { DEAD_LETTER_QUEUE, retryOrDeadLetter } from '../queue/deadLetter';
 import { handleProvision } from './jobs/provisionEsim';
+import { handleSendDeliveryEmail } from './jobs/sendDeliveryEmail';
+import { handleCreateFulfillment } from './jobs/createFulfillment';
+import { handleCancel } from './jobs/cancelEsim';
+import { handleProcessWebhook } from './jobs/processWebhookEvent';
+import { handleResendEmail } from './jobs/resendEmail';
+import { handleBackfillLookupHashes } from './jobs/backfillLookupHashes';
+import { handlePollUsage } from './jobs/pollUsage';
+import { handleSweepStuckDeliveries } from './jobs/sweepStuckDeliveries';
+import { handleDeadLetter } from './jobs/deadLetter';
 
 async function run() {
   console.log('[Worker] Starting worker process...');
 
   const boss = await initializeJobQueue();
 
+  // Register worker for process-webhook jobs (stored Shopify webhook events)
+  await boss.work(
+    'process-webhook',
+    { teamSize: 5, teamConcurrency: 2, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing webhook job ${jobId}`);
+
+      try {
+        await handleProcessWebhook(jobData);
+        console.log(`[Worker] Webhook job ${jobId} completed`);
+      } catch (err) {
+        console.error(`[Worker] Webhook job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
   // Register worker for provision-esim jobs
-  await boss.work('provision-esim', { teamSize: 5, teamConcurrency: 2 }, async (job: unknown) => {
+  await boss.work(
+    'provision-esim',
+    { teamSize: 5, teamConcurrency: 2, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing job ${jobId}`);
+
+      try {
+        await handleProvision(jobData);
+        console.log(`[Worker] Job ${jobId} completed successfully`);
+      } catch (err) {
+        console.error(`[Worker] Job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
+  // Register worker for send-delivery-email jobs (chained after provision-esim)
+  await boss.work(
+    'send-delivery-email',
+    { teamSize: 2, teamConcurrency: 1, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing email job ${jobId}`);
+
+      try {
+        await handleSendDeliveryEmail(jobData);
+        console.log(`[Worker] Email job ${jobId} completed`);
+      } catch (err) {
+        console.error(`[Worker] Email job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
+  // Register worker for create-fulfillment jobs (chained after send-delivery-email)
+  await boss.work(
+    'create-fulfillment',
+    { teamSize: 1, teamConcurrency: 1, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing fulfillment job ${jobId}`);
+
+      try {
+        await handleCreateFulfillment(jobData);
+        console.log(`[Worker] Fulfillment job ${jobId} completed`);
+      } catch (err) {
+        console.error(`[Worker] Fulfillment job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
+  // Register worker for cancel-esim jobs (Shopify order cancellations and refunds)
+  await boss.work(
+    'cancel-esim',
+    { teamSize: 2, teamConcurrency: 1, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing cancel job ${jobId}`);
+
+      try {
+        await handleCancel(jobData);
+        console.log(`[Worker] Cancel job ${jobId} completed`);
+      } catch (err) {
+        console.error(`[Worker] Cancel job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
+  // Register worker for resend-email jobs (order email changed after delivery)
+  await boss.work(
+    'resend-email',
+    { teamSize: 2, teamConcurrency: 1, includeMetadata: true },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+      const jobData = (j.data as Record<string, unknown>) || {};
+
+      console.log(`[Worker] Processing resend job ${jobId}`);
+
+      try {
+        await handleResendEmail(jobData);
+        console.log(`[Worker] Resend job ${jobId} completed`);
+      } catch (err) {
+        console.error(`[Worker] Resend job ${jobId} failed:`, err);
+        return retryOrDeadLetter(job as PgBoss.JobWithMetadata, err);
+      }
+    },
+  );
+
+  // Register worker for the dead-letter queue (jobs that failed for good)
+  await boss.work(DEAD_LETTER_QUEUE, { teamSize: 1, teamConcurrency: 1 }, async (job: unknown) => {
     const j = job as Record<string, unknown>;
     const jobId = j.id ? String(j.id) : 'unknown';
     const jobData = (j.data as Record<string, unknown>) || {};
 
-    console.log(`[Worker] Processing job ${jobId}`);
+    try {
+      await handleDeadLetter(jobData);
+    } catch (err) {
+      console.error(`[Worker] Dead-letter job ${jobId} failed:`, err);
+      throw err;
+    }
+  });
+
+  // Register worker for backfill-lookup-hashes (deliveries provisioned before iccidHash existed)
+  await boss.work(
+    'backfill-lookup-hashes',
+    { teamSize: 1, teamConcurrency: 1 },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+
+      try {
+        await handleBackfillLookupHashes();
+      } catch (err) {
+        console.error(`[Worker] Backfill job ${jobId} failed:`, err);
+        throw err;
+      }
+    },
+  );
+
+  // Idempotent and cheap once caught up; singletonKey keeps restarts from queueing duplicates
+  await boss.send(
+    'backfill-lookup-hashes',
+    {},
+    { singletonKey: 'backfill-lookup-hashes', retryLimit: 3, retryDelay: 60 },
+  );
+
+  // Register worker for poll-usage (UsageSnapshot history for the storefront chart)
+  await boss.work('poll-usage', { teamSize: 1, teamConcurrency: 1 }, async (job: unknown) => {
+    const j = job as Record<string, unknown>;
+    const jobId = j.id ? String(j.id) : 'unknown';
 
     try {
-      await handleProvision(jobData);
-      console.log(`[Worker] Job ${jobId} completed successfully`);
+      await handlePollUsage((j.data as Record<string, unknown>) || {});
     } catch (err) {
-      console.error(`[Worker] Job ${jobId} failed:`, err);
-      // Re-throw to let pg-boss handle retries
+      console.error(`[Worker] Usage poll job ${jobId} failed:`, err);
       throw err;
     }
   });
 
+  // Every 6 hours by default; schedules are stored in pg-boss, so this just upserts
+  await boss.schedule('poll-usage', process.env.USAGE_POLL_CRON || '0 */6 * * *');
+
+  // Register worker for sweep-stuck-deliveries (pending/provisioning deliveries that lost their job)
+  await boss.work(
+    'sweep-stuck-deliveries',
+    { teamSize: 1, teamConcurrency: 1 },
+    async (job: unknown) => {
+      const j = job as Record<string, unknown>;
+      const jobId = j.id ? String(j.id) : 'unknown';
+
+      try {
+        await handleSweepStuckDeliveries();
+      } catch (err) {
+        console.error(`[Worker] Sweep job ${jobId} failed:`, err);
+        throw err;
+      }
+    },
+  );
+
+  // Every 15 minutes by default
+  await boss.schedule('sweep-stuck-deliveries', process.env.STUCK_SWEEP_CRON || '*/15 * * * *');
+
   console.log('[Worker] Worker registered and ready to process jobs');
 
   // Graceful shutdown
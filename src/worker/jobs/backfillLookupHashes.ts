@@ -0,0 +1,10 @@
+import { backfillLookupHashes } from '../../services/esimLookup';
+
+export async function handleBackfillLookupHashes() {
+  console.log('[LookupBackfill] Backfilling ICCID and vendor order hashes');
+
+  const { scanned, updated } = await backfillLookupHashes();
+
+  console.log(`[LookupBackfill] Done: ${updated} of ${scanned} deliveries updated`);
+  return { ok: true, scanned, updated };
+}
@@ -0,0 +1,113 @@
+import prisma from '../../db/prisma';
+import { decrypt } from '../../utils/crypto';
+import { PermanentJobError } from '../../queue/errors';
+import { getProviderForDelivery } from '../../vendor/providers';
+
+interface CancelJobData {
+  deliveryId: string;
+  cancellationRef?: string;
+}
+
+/**
+ * An eSIM counts as in use once it has consumed data or its validity period has started.
+ * Cancelling such an eSIM would cut off a customer who is already travelling.
+ */
+function isEsimInUse(usage: { usedMb: number; beginDate: string | null }): boolean {
+  return usage.usedMb > 0 || !!usage.beginDate;
+}
+
+export async function handleCancel(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as CancelJobData;
+  const deliveryId = String(data.deliveryId || '');
+  if (!deliveryId) throw new PermanentJobError('missing deliveryId');
+
+  const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) throw new PermanentJobError(`EsimDelivery ${deliveryId} not found`);
+
+  if (delivery.status === 'cancelled' || delivery.status === 'refund_failed') {
+    return { ok: true, reason: `already ${delivery.status}` };
+  }
+
+  console.log(
+    `[CancelJob] Processing cancellation of delivery ${deliveryId} for order ${delivery.orderName} (${data.cancellationRef || 'manual'})`,
+  );
+
+  // The vendor call may still be in flight - let pg-boss retry once it settles
+  if (delivery.status === 'provisioning') {
+    throw new Error(`Delivery ${deliveryId} is still provisioning, retry cancellation later`);
+  }
+
+  // A top-up was applied to an eSIM the customer already uses - leave it to support
+  if (delivery.renewalOf && delivery.vendorReferenceId) {
+    return markRefundFailed(deliveryId, 'eSIM renewal cannot be cancelled automatically');
+  }
+
+  // Never reached the vendor: nothing to refund, just stop it from being provisioned
+  if (!delivery.vendorReferenceId || !delivery.payloadEncrypted) {
+    // Conditional update so a provisioning job that started meanwhile isn't overwritten
+    const { count } = await prisma.esimDelivery.updateMany({
+      where: { id: deliveryId, vendorReferenceId: null, status: { not: 'provisioning' } },
+      data: { status: 'cancelled', cancelledAt: new Date() },
+    });
+    if (count === 0) {
+      throw new Error(`Delivery ${deliveryId} changed state during cancellation, retrying`);
+    }
+    console.log(`[CancelJob] Delivery ${deliveryId} was not provisioned - marked cancelled`);
+    return { ok: true, reason: 'not provisioned' };
+  }
+
+  const payload = JSON.parse(decrypt(delivery.payloadEncrypted)) as { iccid?: string };
+  const iccid = payload.iccid;
+  const orderNum = delivery.vendorReferenceId;
+
+  if (!iccid) {
+    return markRefundFailed(deliveryId, 'No ICCID in stored eSIM payload');
+  }
+
+  const provider = await getProviderForDelivery(delivery);
+
+  // Check usage before cancelling so an active eSIM is never cut off
+  const usageResult = await provider.queryUsage({ iccid, orderRef: orderNum });
+  if (!usageResult.success) {
+    if (usageResult.notFound) {
+      return markRefundFailed(deliveryId, `ICCID not found in vendor order ${orderNum}`);
+    }
+    // Transient vendor failure - throw so pg-boss retries
+    throw new Error(`Failed to query usage for ${orderNum}: ${usageResult.error}`);
+  }
+
+  const { usage } = usageResult;
+  if (isEsimInUse(usage)) {
+    return markRefundFailed(
+      deliveryId,
+      `eSIM already in use (usedMb: ${usage.usedMb}, beginDate: ${usage.beginDate}) - not cancelled`,
+    );
+  }
+
+  const cancelResult = await provider.cancel({ orderRef: orderNum, iccid });
+
+  if (!cancelResult.success) {
+    return markRefundFailed(deliveryId, cancelResult.error);
+  }
+
+  await prisma.esimDelivery.update({
+    where: { id: deliveryId },
+    data: { status: 'cancelled', cancelledAt: new Date(), lastError: null },
+  });
+  await prisma.esimOrder.updateMany({
+    where: { vendorReferenceId: orderNum },
+    data: { status: 'cancelled' },
+  });
+
+  console.log(`[CancelJob] Vendor order ${orderNum} cancelled for delivery ${deliveryId}`);
+  return { ok: true };
+}
+
+async function markRefundFailed(deliveryId: string, reason: string) {
+  console.error(`[CancelJob] Refund failed for delivery ${deliveryId}: ${reason}`);
+  await prisma.esimDelivery.update({
+    where: { id: deliveryId },
+    data: { status: 'refund_failed', lastError: reason },
+  });
+  return { ok: false, reason };
+}
@@ -0,0 +1,85 @@
+import prisma from '../../db/prisma';
+import { getShopifyClientForShop } from '../../shopify/client';
+import { PermanentJobError } from '../../queue/errors';
+
+interface CreateFulfillmentJobData {
+  shop?: string | null;
+  orderId: string;
+}
+
+/**
+ * Create the Shopify fulfillment once every eSIM in the order has been delivered and emailed.
+ * Multi-quantity orders have one delivery per unit, so fulfilling early would
+ * mark the order complete while other units are still provisioning.
+ * Non-eSIM line items (not_applicable) are left for the merchant to fulfill.
+ */
+export async function handleCreateFulfillment(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as CreateFulfillmentJobData;
+  const orderId = String(data.orderId || '');
+  if (!orderId) throw new PermanentJobError('missing orderId');
+
+  const outstanding = await prisma.esimDelivery.count({
+    where: {
+      orderId,
+      OR: [
+        { status: { notIn: ['delivered', 'cancelled', 'not_applicable'] } },
+        { emailStatus: { in: ['pending', 'failed', 'failed_terminal'] } },
+      ],
+    },
+  });
+
+  if (outstanding > 0) {
+    // The last delivery to finish its email step enqueues this job again
+    console.log(
+      `[FulfillJob] ${outstanding} delivery(ies) still outstanding for order ${orderId} - deferring fulfillment`,
+    );
+    return { ok: true, reason: 'deferred' };
+  }
+
+  const unfulfilled = await prisma.esimDelivery.findMany({
+    where: {
+      orderId,
+      status: 'delivered',
+      fulfillmentStatus: { in: ['pending', 'failed', 'failed_terminal'] },
+    },
+    select: { id: true, lineItemId: true },
+  });
+
+  if (unfulfilled.length === 0) {
+    return { ok: true, reason: 'already fulfilled' };
+  }
+
+  const ids = unfulfilled.map((d) => d.id);
+  const lineItemIds = [...new Set(unfulfilled.map((d) => d.lineItemId))];
+
+  console.log(`[FulfillJob] Creating Shopify fulfillment for order ${orderId}`);
+
+  let alreadyFulfilled: boolean;
+  try {
+    const shopify = await getShopifyClientForShop(data.shop);
+    ({ alreadyFulfilled } = await shopify.createFulfillment(orderId, lineItemIds));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[FulfillJob] Failed to create Shopify fulfillment: ${msg}`);
+    await prisma.esimDelivery.updateMany({
+      where: { id: { in: ids }, fulfillmentStatus: { not: 'fulfilled' } },
+      data: { fulfillmentStatus: 'failed', lastError: `Fulfillment failed: ${msg}` },
+    });
+    // Re-throw to let pg-boss retry with the create-fulfillment backoff
+    throw err;
+  }
+
+  await prisma.esimDelivery.updateMany({
+    where: { id: { in: ids } },
+    data: { fulfillmentStatus: 'fulfilled' },
+  });
+
+  if (alreadyFulfilled) {
+    // An earlier attempt fulfilled the order but crashed before recording it
+    console.log(`[FulfillJob] Order ${orderId} was already fulfilled in Shopify`);
+    return { ok: true, reason: 'already fulfilled in Shopify' };
+  }
+
+  console.log(`[FulfillJob] Shopify fulfillment created for order ${orderId}`);
+  return { ok: true };
+}
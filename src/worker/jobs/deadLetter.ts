@@ -0,0 +1,88 @@
+import prisma from '../../db/prisma';
+import { recordAudit } from '../../services/audit';
+import { sendOperatorAlertEmail } from '../../services/email';
+import type { DeadLetterJobData } from '../../queue/deadLetter';
+
+export async function handleDeadLetter(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as DeadLetterJobData;
+  const deliveryId = typeof data.data?.deliveryId === 'string' ? data.data.deliveryId : undefined;
+  const orderId = typeof data.data?.orderId === 'string' ? data.data.orderId : undefined;
+
+  const marked = await markStepTerminal(data, deliveryId, orderId);
+
+  console.error(
+    `[DeadLetter] ${data.name} job ${data.jobId} failed for good: ${data.error}` +
+      (marked > 0 ? ` (${marked} delivery(ies) marked failed_terminal)` : ''),
+  );
+
+  const alert = await sendOperatorAlertEmail({
+    subject: `${data.name} job failed for good`,
+    details: {
+      job: `${data.name} ${data.jobId}`,
+      delivery: deliveryId,
+      order: orderId,
+      error: data.error,
+      reason: data.permanent ? 'permanent error' : `gave up after ${data.retryCount} retries`,
+      markedFailedTerminal: marked,
+    },
+  });
+  // Without OPS_ALERT_EMAIL there is nobody to notify; a send failure is worth retrying
+  if (!alert.success && process.env.OPS_ALERT_EMAIL) {
+    throw new Error(`Operator alert failed: ${alert.error}`);
+  }
+
+  await recordAudit({
+    actor: 'system',
+    action: 'job.dead_letter',
+    targetId: deliveryId ?? orderId ?? null,
+    metadata: {
+      name: data.name,
+      jobId: data.jobId,
+      error: data.error,
+      permanent: data.permanent,
+      retryCount: data.retryCount,
+    },
+  });
+
+  return { ok: true, marked };
+}
+
+/**
+ * Mark the pipeline step the job was responsible for as failed_terminal.
+ * Only steps still in a pending/failed state are touched, so a manual retry that
+ * already moved the delivery on is left alone. Other jobs are only reported.
+ */
+async function markStepTerminal(
+  data: DeadLetterJobData,
+  deliveryId?: string,
+  orderId?: string,
+): Promise<number> {
+  switch (data.name) {
+    case 'provision-esim': {
+      if (!deliveryId) return 0;
+      const { count } = await prisma.esimDelivery.updateMany({
+        where: { id: deliveryId, status: 'failed' },
+        data: { status: 'failed_terminal', lastError: data.error },
+      });
+      return count;
+    }
+    case 'send-delivery-email': {
+      if (!deliveryId) return 0;
+      const { count } = await prisma.esimDelivery.updateMany({
+        where: { id: deliveryId, emailStatus: { in: ['pending', 'failed'] } },
+        data: { emailStatus: 'failed_terminal', lastError: data.error },
+      });
+      return count;
+    }
+    case 'create-fulfillment': {
+      if (!orderId) return 0;
+      const { count } = await prisma.esimDelivery.updateMany({
+        where: { orderId, status: 'delivered', fulfillmentStatus: { in: ['pending', 'failed'] } },
+        data: { fulfillmentStatus: 'failed_terminal', lastError: data.error },
+      });
+      return count;
+    }
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,48 @@
+import prisma from '../../db/prisma';
+import { pollActiveUsage } from '../../services/esimUsage';
+import { getJobQueue } from '../../queue/jobQueue';
+
+interface PollUsageJobData {
+  after?: string; // Delivery id a run cut short by its time budget stopped at
+}
+
+/**
+ * Whether a continuation of an earlier poll is still queued or running. A scheduled run
+ * starting meanwhile would poll the same eSIMs again and record duplicate snapshots.
+ */
+async function hasPollInProgress(): Promise<boolean> {
+  const [row] = await prisma.$queryRaw<Array<{ count: bigint }>>`
+    SELECT count(*) AS count FROM pgboss.job
+    WHERE name = 'poll-usage' AND state IN ('created', 'retry', 'active') AND data ? 'after'
+  `;
+  return Number(row.count) > 0;
+}
+
+export async function handlePollUsage(jobData: Record<string, unknown> = {}) {
+  const data = jobData as PollUsageJobData;
+  if (!data.after && (await hasPollInProgress())) {
+    console.warn('[UsagePoll] Previous poll is still running, skipping this scheduled run');
+    return { ok: true, skipped: true };
+  }
+
+  console.log(
+    `[UsagePoll] Polling usage for active eSIMs${data.after ? ` after ${data.after}` : ''}`,
+  );
+
+  const { polled, recorded, resumeAfter } = await pollActiveUsage({ after: data.after });
+
+  console.log(`[UsagePoll] Done: ${recorded} snapshots recorded for ${polled} eSIMs`);
+
+  // Out of time before the end - a follow-up job continues instead of running past the expiry
+  if (resumeAfter) {
+    console.warn(`[UsagePoll] Time budget reached, continuing after ${resumeAfter}`);
+    // Keyed by the cursor, so the same continuation is never queued twice
+    await getJobQueue().send(
+      'poll-usage',
+      { after: resumeAfter },
+      { singletonKey: `poll-usage:${resumeAfter}` },
+    );
+  }
+
+  return { ok: true, polled, recorded, resumeAfter };
+}
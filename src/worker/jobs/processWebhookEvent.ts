@@ -0,0 +1,63 @@
+import prisma from '../../db/prisma';
+import { webhookTopicHandlers } from '../../services/shopifyWebhooks';
+import { PermanentJobError } from '../../queue/errors';
+import { REDACTED_PAYLOAD, REDACT_ON_PROCESSED_TOPICS } from '../../services/compliance';
+
+interface ProcessWebhookJobData {
+  eventId: string;
+}
+
+export async function handleProcessWebhook(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as ProcessWebhookJobData;
+  const eventId = String(data.eventId || '');
+  if (!eventId) throw new PermanentJobError('missing eventId');
+
+  const event = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+  if (!event) throw new PermanentJobError(`WebhookEvent ${eventId} not found`);
+
+  if (event.status === 'processed') {
+    return { ok: true, reason: 'already processed' };
+  }
+
+  const handler = webhookTopicHandlers[event.topic];
+  if (!handler) {
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: { status: 'failed', lastError: `No handler for topic ${event.topic}` },
+    });
+    return { ok: false, reason: `unsupported topic ${event.topic}` };
+  }
+
+  await prisma.webhookEvent.update({
+    where: { id: eventId },
+    data: { status: 'processing', attempts: { increment: 1 } },
+  });
+
+  console.log(`[WebhookJob] Processing ${event.topic} event ${eventId} from ${event.shop}`);
+
+  try {
+    await handler(JSON.parse(event.payload), event.shop, eventId);
+
+    // Only wiped now - a retry after a failure above still needs the body
+    const redact = REDACT_ON_PROCESSED_TOPICS.has(event.topic);
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status: 'processed',
+        processedAt: new Date(),
+        lastError: null,
+        ...(redact && { payload: REDACTED_PAYLOAD, redactedAt: new Date() }),
+      },
+    });
+
+    return { ok: true };
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[WebhookJob] Event ${eventId} failed:`, msg);
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: { status: 'failed', lastError: msg },
+    });
+    throw err;
+  }
+}
@@ -1,9 +1,13 @@
+import type { EsimDelivery, Prisma } from '@prisma/client';
 import prisma from '../../db/prisma';
-import FiRoamClient from '../../vendor/firoamClient';
-import { sendDeliveryEmail, recordDeliveryAttempt, type EsimPayload } from '../../services/email';
-import { getShopifyClient } from '../../shopify/client';
-
-const fiRoam = new FiRoamClient();
+import { getShopBranding } from '../../services/shops';
+import { hashIccid, hashVendorOrder, isSameCustomer } from '../../services/esimLookup';
+import { findExistingVendorOrder, vendorExternalIds } from '../../services/vendorOrders';
+import { getJobQueue, transactionDb, RETRY_POLICIES } from '../../queue/jobQueue';
+import { decrypt } from '../../utils/crypto';
+import { PermanentJobError } from '../../queue/errors';
+import { DEFAULT_PROVIDER, getEsimProvider } from '../../vendor/providers';
+import type { EsimProvider, ProviderOrderRequest } from '../../vendor/esimProvider';
 
 interface ProvisionJobData {
   deliveryId: string;
@@ -14,271 +18,148 @@ interface ProvisionJobData {
   customerEmail?: string;
   sku?: string | null;
   productName?: string;
-  orderPayload?: Record<string, unknown>;
 }
 
 export async function handleProvision(jobData: Record<string, unknown>) {
   const data = jobData as unknown as ProvisionJobData;
   const deliveryId = String(data.deliveryId || '');
-  if (!deliveryId) throw new Error('missing deliveryId');
+  if (!deliveryId) throw new PermanentJobError('missing deliveryId');
 
   const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
-  if (!delivery) throw new Error(`EsimDelivery ${deliveryId} not found`);
+  if (!delivery) throw new PermanentJobError(`EsimDelivery ${deliveryId} not found`);
 
   if (delivery.status === 'delivered') {
     return { ok: true, reason: 'already delivered' };
   }
 
-  await prisma.esimDelivery.update({ where: { id: deliveryId }, data: { status: 'provisioning' } });
+  // Order was cancelled/refunded before we got to it - never order from the vendor
+  if (delivery.cancellationRef || delivery.status === 'cancelled') {
+    return { ok: true, reason: 'cancelled' };
+  }
+
+  // Claim the delivery, so a duplicate job can't order alongside an attempt still in flight.
+  // A delivery left in provisioning by a dead worker is reset to pending by the stuck-delivery sweeper.
+  const { count: claimed } = await prisma.esimDelivery.updateMany({
+    where: { id: deliveryId, status: { in: ['pending', 'failed'] }, cancellationRef: null },
+    data: { status: 'provisioning' },
+  });
+  if (claimed === 0) {
+    return { ok: true, reason: `delivery is ${delivery.status}` };
+  }
 
   console.log(`[ProvisionJob] Processing delivery ${deliveryId} for order ${delivery.orderName}`);
 
   try {
-    let orderPayload = data.orderPayload;
-    let mappingInfo: {
-      name?: string;
-      region?: string;
-      dataAmount?: string;
-      validity?: string;
-    } | null = null;
-
-    // If no orderPayload provided, look up SKU mapping
-    if (!orderPayload) {
-      const sku = data.sku;
-
-      if (!sku) {
-        throw new Error('Missing SKU in job data');
-      }
-
-      // Look up provider mapping by SKU
-      const mapping = await prisma.providerSkuMapping.findUnique({
-        where: { shopifySku: sku },
-      });
-
-      if (!mapping) {
-        throw new Error(`No provider mapping found for SKU: ${sku}`);
-      }
+    const sku = data.sku || delivery.sku;
 
-      if (!mapping.isActive) {
-        throw new Error(`SKU mapping is inactive: ${sku}`);
-      }
+    if (!sku) {
+      throw new PermanentJobError('Missing SKU in job data');
+    }
 
-      // Store mapping info for email
-      mappingInfo = {
-        name: mapping.name || undefined,
-        region: mapping.region || undefined,
-        dataAmount: mapping.dataAmount || undefined,
-        validity: mapping.validity || undefined,
-      };
+    // Look up provider mapping by SKU
+    const mapping = await prisma.providerSkuMapping.findUnique({
+      where: { shopifySku: sku },
+    });
 
-      console.log(
-        `[ProvisionJob] Using provider: ${mapping.provider}, SKU: ${mapping.providerSku}`,
-      );
+    if (!mapping) {
+      throw new PermanentJobError(`No provider mapping found for SKU: ${sku}`);
+    }
 
-      // For now, we only support FiRoam
-      if (mapping.provider !== 'firoam') {
-        throw new Error(`Unsupported provider: ${mapping.provider}`);
-      }
+    if (!mapping.isActive) {
+      throw new PermanentJobError(`SKU mapping is inactive: ${sku}`);
+    }
 
-      // Parse the providerSku to extract skuId, apiCode, and priceId
-      // Format: "skuId:apiCode:priceId" (e.g., "120:826-0-?-1-G-D:14094")
-      // Legacy format: "skuId:apiCode" without priceId (will require runtime lookup for daypass)
-      const parts = mapping.providerSku.split(':');
-      if (parts.length < 2) {
-        throw new Error(
-          `Invalid providerSku format: ${mapping.providerSku}. Expected format: "skuId:apiCode:priceId" (e.g., "120:826-0-?-1-G-D:14094")`,
-        );
-      }
+    if (mapping.packageType === 'renewal' && !delivery.renewalOf) {
+      throw new PermanentJobError(`Renewal SKU ${sku} requires the ICCID of the eSIM to top up`);
+    }
 
-      // Handle both formats:
-      // New: "120:826-0-?-1-G-D:14094" (skuId:apiCode:priceId)
-      // Legacy: "120:826-0-?-1-G-D" (skuId:apiCode) - requires runtime lookup for daypass
-      const skuId = parts[0];
-      const apiCode = parts.length >= 2 ? parts[1] : '';
-      const storedPriceId = parts.length >= 3 ? parts[2] : null;
-
-      orderPayload = {
-        skuId,
-        count: '1',
-        backInfo: '1', // Get full details immediately (one-step flow)
-        customerEmail: delivery.customerEmail || undefined,
-      };
-
-      // Add daypassDays parameter for daypass packages
-      if (mapping.packageType === 'daypass') {
-        if (!mapping.daysCount) {
-          throw new Error(`Daypass package ${sku} requires daysCount field in mapping`);
-        }
+    console.log(`[ProvisionJob] Using provider: ${mapping.provider}, SKU: ${mapping.providerSku}`);
 
-        // For daypass, the apiCode template has "?" which gets replaced with actual days
-        const apiCodeWithDays = apiCode.replace('?', String(mapping.daysCount));
+    const provider = getEsimProvider(mapping.provider);
 
-        // Use stored priceId if available (new format), otherwise do runtime lookup (legacy)
-        if (storedPriceId) {
-          console.log(
-            `[ProvisionJob] Daypass: ${mapping.daysCount} days, using stored priceId: ${storedPriceId}`,
-          );
-          orderPayload.priceId = storedPriceId;
-        } else {
-          // Legacy format: Need to fetch the numeric priceid from FiRoam API
-          console.log(
-            `[ProvisionJob] Daypass: ${mapping.daysCount} days, looking up priceid for apiCode: ${apiCodeWithDays}`,
+    // Recorded before the vendor call, so cancel, usage and the sweeper go to the vendor that
+    // was actually used even if the SKU is moved to another one later
+    if (delivery.provider !== mapping.provider) {
+      if (delivery.provider) {
+        // An earlier attempt may have ordered from the vendor the SKU was mapped to back then
+        const earlierOrder = await findExistingVendorOrder(
+          delivery,
+          getEsimProvider(delivery.provider),
+        );
+        if (earlierOrder) {
+          throw new PermanentJobError(
+            `Delivery already has ${delivery.provider} order ${earlierOrder}, but SKU ${sku} now maps to ${mapping.provider}`,
           );
-
-          // Fetch packages from FiRoam to get the numeric priceid
-          const packagesResult = await fiRoam.getPackages(skuId);
-          if (!packagesResult.packageData) {
-            throw new Error(
-              `Failed to fetch packages for skuId ${skuId}: ${packagesResult.error || 'Unknown error'}`,
-            );
-          }
-
-          // Find the package matching our apiCode
-          const esimPackages = packagesResult.packageData.esimPackageDtoList || [];
-          const matchingPkg = esimPackages.find((pkg) => pkg.apiCode === apiCodeWithDays);
-
-          if (!matchingPkg) {
-            // Try without the day replacement (some daypass packages might use different format)
-            const matchingPkgAlt = esimPackages.find(
-              (pkg) =>
-                pkg.supportDaypass === 1 &&
-                pkg.flows === parseInt(apiCode.split('-')[3] || '0', 10),
-            );
-            if (!matchingPkgAlt) {
-              console.log(
-                `[ProvisionJob] Available packages:`,
-                esimPackages.map((p) => ({
-                  apiCode: p.apiCode,
-                  priceid: p.priceid,
-                  supportDaypass: p.supportDaypass,
-                })),
-              );
-              throw new Error(`No matching daypass package found for apiCode: ${apiCodeWithDays}`);
-            }
-            orderPayload.priceId = String(matchingPkgAlt.priceid);
-            console.log(
-              `[ProvisionJob] Found daypass package by data amount, priceid: ${matchingPkgAlt.priceid}`,
-            );
-          } else {
-            orderPayload.priceId = String(matchingPkg.priceid);
-            console.log(`[ProvisionJob] Found daypass package, priceid: ${matchingPkg.priceid}`);
-          }
-        }
-
-        (orderPayload as Record<string, unknown>).daypassDays = String(mapping.daysCount);
-      } else {
-        // Fixed package: Use stored priceId if available, otherwise use apiCode as priceId (legacy behavior)
-        if (storedPriceId) {
-          orderPayload.priceId = storedPriceId;
-        } else {
-          // Legacy: apiCode might be numeric priceId
-          orderPayload.priceId = apiCode;
         }
       }
+      await prisma.esimDelivery.update({
+        where: { id: deliveryId },
+        data: { provider: mapping.provider },
+      });
     }
 
-    if (!orderPayload) {
-      throw new Error('No order payload available');
+    const branding = await getShopBranding(delivery.shop);
+    const request: ProviderOrderRequest = {
+      mapping,
+      deliveryId,
+      customerEmail: delivery.customerEmail,
+      locales: [delivery.locale, branding.locale],
+      externalIds: vendorExternalIds(delivery),
+    };
+
+    if (delivery.renewalOf) {
+      await renewExistingEsim(delivery, provider, request);
+      return { ok: true };
     }
 
-    const result = await fiRoam.addEsimOrder(orderPayload);
-
-    // Check if the order was successful
-    if (!result.canonical || !result.db) {
-      const errorMsg = result.error
-        ? `FiRoam error: ${String(result.error)}`
-        : 'FiRoam returned unexpected response';
-      console.log(`[ProvisionJob] Failed: ${errorMsg}`);
-      console.log('[ProvisionJob] Raw response:', JSON.stringify(result.raw, null, 2));
-      throw new Error(errorMsg);
+    // An earlier attempt may have ordered and crashed before saving - adopt that order instead
+    const existingOrderRef = await findExistingVendorOrder(delivery, provider);
+    if (existingOrderRef) {
+      console.log(
+        `[ProvisionJob] Adopting ${mapping.provider} order ${existingOrderRef} from an earlier attempt`,
+      );
     }
 
-    // Extract vendor order number from raw response
-    const rawData = result.raw.data;
-    const vendorOrderNum =
-      typeof rawData === 'string' ? rawData : (rawData as Record<string, unknown>)?.orderNum;
+    const result = existingOrderRef
+      ? await provider.getCredentials(existingOrderRef, { deliveryId })
+      : await provider.order(request);
 
-    if (!vendorOrderNum) {
-      throw new Error('No order number in FiRoam response');
+    if (!result.success) {
+      console.log(`[ProvisionJob] Failed: ${result.error}`);
+      console.log('[ProvisionJob] Raw response:', JSON.stringify(result.raw, null, 2));
+      throw new Error(result.error);
     }
 
-    console.log(`[ProvisionJob] FiRoam order created: ${vendorOrderNum}`);
-    console.log(`[ProvisionJob] LPA: ${result.canonical.lpa || 'N/A'}`);
-    console.log(`[ProvisionJob] Activation Code: ${result.canonical.activationCode || 'N/A'}`);
-    console.log(`[ProvisionJob] ICCID: ${result.canonical.iccid || 'N/A'}`);
+    const vendorOrderNum = result.orderRef;
+    console.log(`[ProvisionJob] ${mapping.provider} order created: ${vendorOrderNum}`);
+    console.log(`[ProvisionJob] LPA: ${result.credentials.lpa || 'N/A'}`);
+    console.log(`[ProvisionJob] Activation Code: ${result.credentials.activationCode || 'N/A'}`);
+    console.log(`[ProvisionJob] ICCID: ${result.credentials.iccid || 'N/A'}`);
 
-    // Encrypt the canonical payload for storage
+    // Encrypt the credentials for storage
     const crypto = await import('../../utils/crypto');
-    const payloadEncrypted = await crypto.encrypt(JSON.stringify(result.canonical));
-
-    await prisma.esimDelivery.update({
-      where: { id: deliveryId },
-      data: {
-        vendorReferenceId: String(vendorOrderNum),
-        payloadEncrypted,
-        status: 'delivered',
-      },
+    const payloadEncrypted = await crypto.encrypt(JSON.stringify(result.credentials));
+    const iccidHash = result.credentials.iccid ? hashIccid(result.credentials.iccid) : null;
+
+    // The email job is enqueued with the vendor fields, so a crash here can't lose the email
+    await prisma.$transaction(async (tx) => {
+      await tx.esimDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          vendorReferenceId: vendorOrderNum,
+          vendorOrderHash: hashVendorOrder(vendorOrderNum),
+          payloadEncrypted,
+          iccidHash,
+          status: 'delivered',
+          emailStatus: 'pending',
+          fulfillmentStatus: 'pending',
+        },
+      });
+      await enqueueDeliveryEmail(tx, deliveryId);
     });
 
     console.log(`[ProvisionJob] eSIM provisioned successfully: ${vendorOrderNum}`);
 
-    // Send delivery email with QR code
-    if (delivery.customerEmail) {
-      console.log(`[ProvisionJob] Sending delivery email to ${delivery.customerEmail}`);
-
-      const esimPayload: EsimPayload = {
-        lpa: result.canonical.lpa || '',
-        activationCode: result.canonical.activationCode || '',
-        iccid: result.canonical.iccid || '',
-      };
-
-      const emailResult = await sendDeliveryEmail({
-        to: delivery.customerEmail,
-        orderNumber: delivery.orderName,
-        productName: mappingInfo?.name || data.productName,
-        esimPayload,
-        region: mappingInfo?.region,
-        dataAmount: mappingInfo?.dataAmount,
-        validity: mappingInfo?.validity,
-      });
-
-      // Record the delivery attempt
-      await recordDeliveryAttempt(
-        prisma,
-        deliveryId,
-        'email',
-        emailResult.success ? `sent:${emailResult.messageId}` : `failed:${emailResult.error}`,
-      );
-
-      if (emailResult.success) {
-        console.log(`[ProvisionJob] Delivery email sent: ${emailResult.messageId}`);
-      } else {
-        console.error(`[ProvisionJob] Email delivery failed: ${emailResult.error}`);
-        // Don't throw - eSIM is provisioned, email failure is recoverable
-      }
-    } else {
-      console.warn(`[ProvisionJob] No customer email - skipping delivery email`);
-    }
-
-    // Create Shopify fulfillment
-    if (data.orderId) {
-      try {
-        console.log(`[ProvisionJob] Creating Shopify fulfillment for order ${data.orderId}`);
-
-        const shopify = getShopifyClient();
-        await shopify.createFulfillment(data.orderId);
-
-        console.log(`[ProvisionJob] Shopify fulfillment created successfully`);
-      } catch (fulfillmentError) {
-        const fulfillmentMsg =
-          fulfillmentError instanceof Error ? fulfillmentError.message : String(fulfillmentError);
-        console.error(`[ProvisionJob] Failed to create Shopify fulfillment: ${fulfillmentMsg}`);
-        // Don't throw - eSIM is delivered, fulfillment failure is recoverable
-      }
-    } else {
-      console.warn(`[ProvisionJob] Missing orderId - skipping Shopify fulfillment`);
-    }
-
     return { ok: true };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -290,3 +171,90 @@ export async function handleProvision(jobData: Record<string, unknown>) {
     throw err;
   }
 }
+
+/**
+ * Top up the eSIM of an earlier delivery instead of ordering a new one.
+ * The customer keeps the installed eSIM, so the confirmation email has no QR code.
+ */
+async function renewExistingEsim(
+  delivery: EsimDelivery,
+  provider: EsimProvider,
+  request: ProviderOrderRequest,
+) {
+  const target = await prisma.esimDelivery.findUnique({
+    where: { id: delivery.renewalOf as string },
+  });
+  if (!target || target.status !== 'delivered' || !target.payloadEncrypted) {
+    throw new PermanentJobError(`Renewal target ${delivery.renewalOf} is not a delivered eSIM`);
+  }
+  // Checked again here for renewals created before the webhook matched the customer
+  if (!isSameCustomer(target, delivery)) {
+    throw new PermanentJobError(`Renewal target ${target.id} belongs to another customer`);
+  }
+
+  // Only the vendor that issued the eSIM can top it up
+  const targetProvider = target.provider ?? DEFAULT_PROVIDER;
+  if (targetProvider !== request.mapping.provider) {
+    throw new PermanentJobError(
+      `Renewal SKU maps to ${request.mapping.provider}, but the eSIM of ${target.id} is from ${targetProvider}`,
+    );
+  }
+
+  const { iccid } = JSON.parse(decrypt(target.payloadEncrypted)) as { iccid?: string };
+  if (!iccid) {
+    throw new PermanentJobError(`Renewal target ${target.id} has no ICCID in its payload`);
+  }
+
+  console.log(
+    `[ProvisionJob] Renewing eSIM of delivery ${target.id} for order ${delivery.orderName}`,
+  );
+
+  let orderNum = await findExistingVendorOrder(delivery, provider);
+  if (orderNum) {
+    console.log(`[ProvisionJob] Adopting renewal ${orderNum} from an earlier attempt`);
+  } else {
+    const result = await provider.renew({
+      mapping: request.mapping,
+      deliveryId: request.deliveryId,
+      locales: request.locales,
+      externalIds: request.externalIds,
+      iccid,
+    });
+
+    if (!result.success) {
+      console.log('[ProvisionJob] Raw renewal response:', JSON.stringify(result.raw, null, 2));
+      throw new Error(result.error);
+    }
+    orderNum = result.orderRef;
+  }
+
+  const renewalOrderNum = orderNum;
+  await prisma.$transaction(async (tx) => {
+    await tx.esimDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        vendorReferenceId: renewalOrderNum,
+        vendorOrderHash: hashVendorOrder(renewalOrderNum),
+        status: 'delivered',
+        emailStatus: 'pending',
+        fulfillmentStatus: 'pending',
+      },
+    });
+    // The new package starts from zero, so low-balance and expiry alerts can fire again
+    await tx.usageAlert.deleteMany({ where: { deliveryId: target.id } });
+    await enqueueDeliveryEmail(tx, delivery.id);
+  });
+
+  console.log(`[ProvisionJob] eSIM renewed successfully: ${renewalOrderNum}`);
+}
+
+/**
+ * Hand the delivery over to the send-delivery-email job, inside the transaction that marks it delivered
+ */
+async function enqueueDeliveryEmail(tx: Prisma.TransactionClient, deliveryId: string) {
+  await getJobQueue().send(
+    'send-delivery-email',
+    { deliveryId },
+    { ...RETRY_POLICIES['send-delivery-email'], db: transactionDb(tx) },
+  );
+}
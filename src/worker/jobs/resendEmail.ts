@@ -0,0 +1,45 @@
+import prisma from '../../db/prisma';
+import { resendDeliveryEmail } from '../../services/delivery';
+import { PermanentJobError } from '../../queue/errors';
+
+interface ResendEmailJobData {
+  deliveryId: string;
+  to?: string; // New order email; becomes customerEmail once the resend reaches it
+  reason?: string;
+}
+
+export async function handleResendEmail(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as ResendEmailJobData;
+  const deliveryId = String(data.deliveryId || '');
+  if (!deliveryId) throw new PermanentJobError('missing deliveryId');
+
+  console.log(`[ResendJob] Resending delivery ${deliveryId} (${data.reason || 'manual'})`);
+
+  const result = await resendDeliveryEmail(deliveryId, { to: data.to });
+
+  // Over the limit - retrying would only hit the limit again
+  if (result.reason === 'rate_limited') {
+    console.warn(`[ResendJob] Skipped delivery ${deliveryId}: ${result.error}`);
+    return { ok: false, reason: 'rate limited' };
+  }
+
+  // The delivery can't be resent in its current state - retrying won't change that
+  if (result.reason === 'not_found' || result.reason === 'refused') {
+    throw new PermanentJobError(`Resend refused for delivery ${deliveryId}: ${result.error}`);
+  }
+
+  if (!result.success) {
+    throw new Error(`Resend failed for delivery ${deliveryId}: ${result.error}`);
+  }
+
+  // Skipped if the order email changed again meanwhile - that change has its own resend
+  if (data.to) {
+    await prisma.esimDelivery.updateMany({
+      where: { id: deliveryId, orderEmail: data.to },
+      data: { customerEmail: data.to },
+    });
+  }
+
+  console.log(`[ResendJob] Delivery ${deliveryId} resent: ${result.messageId}`);
+  return { ok: true };
+}
@@ -0,0 +1,121 @@
+import type { EsimDelivery } from '@prisma/client';
+import prisma from '../../db/prisma';
+import { sendDeliveryEmail, sendRenewalEmail, recordDeliveryAttempt } from '../../services/email';
+import { loadDeliveryContent } from '../../services/delivery';
+import { activateDeliveryPageLink, createDeliveryPageLink } from '../../services/deliveryAccess';
+import { getShopBranding } from '../../services/shops';
+import { isSameCustomer } from '../../services/esimLookup';
+import { createUsageToken, buildUsagePageUrl } from '../../services/usageLinks';
+import { getJobQueue, transactionDb, RETRY_POLICIES } from '../../queue/jobQueue';
+import { decrypt } from '../../utils/crypto';
+import { PermanentJobError } from '../../queue/errors';
+import { resolveLocale } from '../../i18n';
+
+interface SendDeliveryEmailJobData {
+  deliveryId: string;
+}
+
+export async function handleSendDeliveryEmail(jobData: Record<string, unknown>) {
+  const data = jobData as unknown as SendDeliveryEmailJobData;
+  const deliveryId = String(data.deliveryId || '');
+  if (!deliveryId) throw new PermanentJobError('missing deliveryId');
+
+  const delivery = await prisma.esimDelivery.findUnique({ where: { id: deliveryId } });
+  if (!delivery) throw new PermanentJobError(`EsimDelivery ${deliveryId} not found`);
+
+  if (delivery.status !== 'delivered') {
+    return { ok: true, reason: `delivery is ${delivery.status}` };
+  }
+
+  // A retry after the send went through but before the job completed
+  if (delivery.emailStatus === 'sent' || delivery.emailStatus === 'skipped') {
+    await finishEmailStep(delivery, delivery.emailStatus);
+    return { ok: true, reason: `already ${delivery.emailStatus}` };
+  }
+
+  if (!delivery.customerEmail) {
+    console.warn(`[EmailJob] No customer email for delivery ${deliveryId} - skipping email`);
+    await finishEmailStep(delivery, 'skipped');
+    return { ok: true, reason: 'no customer email' };
+  }
+
+  console.log(`[EmailJob] Sending delivery ${deliveryId} to ${delivery.customerEmail}`);
+
+  const pageLink = delivery.renewalOf ? undefined : createDeliveryPageLink();
+  const emailResult = delivery.renewalOf
+    ? await sendRenewalConfirmation(delivery, delivery.customerEmail)
+    : await sendDeliveryEmail({
+        to: delivery.customerEmail,
+        ...(await loadDeliveryContent(delivery)),
+        deliveryPageUrl: pageLink?.url,
+      });
+
+  await recordDeliveryAttempt(
+    prisma,
+    deliveryId,
+    'email',
+    emailResult.success ? `sent:${emailResult.messageId}` : `failed:${emailResult.error}`,
+  );
+
+  if (!emailResult.success) {
+    await prisma.esimDelivery.update({
+      where: { id: deliveryId },
+      data: { emailStatus: 'failed', lastError: `Email failed: ${emailResult.error}` },
+    });
+    // Re-throw to let pg-boss retry with the send-delivery-email backoff
+    throw new Error(`Delivery email failed for ${deliveryId}: ${emailResult.error}`);
+  }
+
+  console.log(`[EmailJob] Delivery email sent: ${emailResult.messageId}`);
+  await activateDeliveryPageLink(deliveryId, pageLink);
+  await finishEmailStep(delivery, 'sent');
+  return { ok: true };
+}
+
+/**
+ * Top-up confirmation for a renewal - usage is tracked against the renewed eSIM's delivery
+ */
+async function sendRenewalConfirmation(delivery: EsimDelivery, to: string) {
+  const target = await prisma.esimDelivery.findUnique({
+    where: { id: delivery.renewalOf as string },
+  });
+  if (!target?.payloadEncrypted) {
+    throw new PermanentJobError(`Renewal target ${delivery.renewalOf} has no payload`);
+  }
+  // The usage link below reveals the target eSIM, so it only ever goes to its own customer
+  if (!isSameCustomer(target, delivery)) {
+    throw new PermanentJobError(`Renewal target ${target.id} belongs to another customer`);
+  }
+
+  const { iccid } = JSON.parse(decrypt(target.payloadEncrypted)) as { iccid?: string };
+  const mapping = delivery.sku
+    ? await prisma.providerSkuMapping.findUnique({ where: { shopifySku: delivery.sku } })
+    : null;
+  const branding = await getShopBranding(delivery.shop);
+
+  return sendRenewalEmail({
+    to,
+    orderNumber: delivery.orderName,
+    productName: mapping?.name || undefined,
+    iccid: iccid || '',
+    dataAmount: mapping?.dataAmount || undefined,
+    validity: mapping?.validity || undefined,
+    usageUrl: buildUsagePageUrl(branding.storefrontUrl, createUsageToken(target.id)),
+    branding,
+    locale: resolveLocale(delivery.locale, branding.locale),
+  });
+}
+
+/**
+ * Record the email outcome and chain the create-fulfillment job in the same transaction
+ */
+async function finishEmailStep(delivery: EsimDelivery, emailStatus: 'sent' | 'skipped') {
+  await prisma.$transaction(async (tx) => {
+    await tx.esimDelivery.update({ where: { id: delivery.id }, data: { emailStatus } });
+    await getJobQueue().send(
+      'create-fulfillment',
+      { shop: delivery.shop, orderId: delivery.orderId },
+      { ...RETRY_POLICIES['create-fulfillment'], db: transactionDb(tx) },
+    );
+  });
+}
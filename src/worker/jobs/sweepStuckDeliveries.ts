@@ -0,0 +1,40 @@
+import { sweepStalledSteps, sweepStuckDeliveries } from '../../services/delivery';
+import { recordAudit } from '../../services/audit';
+
+export async function handleSweepStuckDeliveries() {
+  const stalled = await sweepStalledSteps();
+  for (const step of stalled) {
+    console.warn(
+      `[Sweeper] ${step.job} for ${step.key} stalled (last job ${step.lastJobId ?? 'none'}: ` +
+        `${step.lastJobState ?? 'missing'}) - dead-lettered`,
+    );
+  }
+
+  const result = await sweepStuckDeliveries();
+
+  if (result.stuck === 0) {
+    return { ok: true, stuck: 0, stalled: stalled.length };
+  }
+
+  const { adopting, requeued, queued, lookup_failed, changed } = result.counts;
+  console.warn(
+    `[Sweeper] ${result.stuck} stuck delivery(ies): ${adopting} adopting a vendor order, ` +
+      `${requeued} re-enqueued, ${queued} still queued, ${lookup_failed} lookup failed, ${changed} changed`,
+  );
+  for (const d of result.deliveries) {
+    console.warn(
+      `[Sweeper] Delivery ${d.id} (${d.status}): ${d.outcome}` +
+        (d.vendorOrder ? ` ${d.vendorOrder}` : '') +
+        (d.error ? ` - ${d.error}` : ''),
+    );
+  }
+
+  // One entry per sweep that found something, so on-call can see what was repaired
+  await recordAudit({
+    actor: 'system',
+    action: 'delivery.sweep',
+    metadata: { counts: result.counts, deliveries: result.deliveries },
+  });
+
+  return { ok: true, ...result.counts, stuck: result.stuck, stalled: stalled.length };
+}